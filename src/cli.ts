@@ -1,7 +1,36 @@
 #!/usr/bin/env node
 
-import { program } from 'commander';
-import { convertImages } from './commands/convert/index.js';
+import { program, type Command } from 'commander';
+import { convertImages, planConversion } from './commands/convert/index.js';
+import { parseEncoderSettings } from './commands/convert/encode.js';
+import { parseTransformSteps } from './commands/convert/transform.js';
+import { applyPreset, loadConfig, resolvePreset } from './commands/convert/config.js';
+import { createConsoleReporter, formatPlan } from './commands/convert/reporter.js';
+import { watchImages } from './commands/convert/watch.js';
+import { STDIN_PATH } from './commands/convert/source.js';
+import { inspectImages } from './commands/inspect/index.js';
+import { formatReportTable } from './commands/inspect/reporter.js';
+import { spriteImages } from './commands/sprite/index.js';
+
+/**
+ * Exit code used when the batch finished but some files failed to convert or read,
+ * or when a dry run found output collisions
+ */
+const EXIT_FILES_FAILED = 2;
+
+/**
+ * Collects repeatable option values into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Names of the options given on the command line rather than by their defaults
+ */
+function getExplicitOptions(command: Command): string[] {
+  return Object.keys(command.opts()).filter((key) => command.getOptionValueSource(key) === 'cli');
+}
 
 // Define the CLI
 program
@@ -12,15 +41,200 @@ program
 program
   .command('convert')
   .description('Convert image format')
-  .argument('<path>', 'path to image file or directory')
-  .option('-f, --format <format>', 'output format (webp, jpg, png)', 'jpg')
-  .option('-q, --quality <number>', 'JPEG quality (1-100)', '95')
+  .argument('<path>', 'path to image file, directory, zip or tar archive, or - to convert stdin to stdout')
+  .option('-f, --format <format>', 'output format (webp, jpg, png, avif, tiff, gif, heif, or same to keep each input format)', 'jpg')
+  .option('-q, --quality <number>', 'output quality (1-100) for JPEG, WebP, AVIF, HEIF and TIFF', '95')
   .option('-o, --output <output>', 'output directory')
   .option('-r, --recursive', 'convert files in subdirectories recursively')
   .option('--zip', 'output as a zip archive instead of directory')
+  .option('--archive <format>', 'output as an archive of this format instead of a directory (zip, tar, tgz)')
+  .option('--compression-level <n>', 'compression level of zip and tgz archives (0-9, defaults to 9)')
+  .option('--width <pixels>', 'resize to the given width')
+  .option('--height <pixels>', 'resize to the given height')
+  .option('--fit <fit>', 'how the image should fit both dimensions (cover, contain, inside, outside, fill)')
+  .option('--position <position>', 'position or strategy used for cover/contain (e.g. centre, north, attention)')
+  .option('--background <color>', 'background color used when fit is contain')
+  .option('--no-enlarge', 'do not enlarge images smaller than the target size')
+  .option('--widths <list>', 'generate responsive variants at these comma-separated widths')
+  .option('--formats <list>', 'comma-separated output formats for variants (defaults to --format)')
+  .option('--variant-template <template>', 'file name template for variants ({name}, {width}, {height}, {ext})')
+  .option('--manifest <file>', 'name of the variant manifest written to the output root')
+  .option('--output-template <template>', 'output path template ({dir}, {name}, {ext}, {srcExt}, {width}, {height}, {hash:8}, {date})')
+  .option('--on-collision <policy>', 'what to do when sources map to the same output (error, suffix, overwrite; defaults to overwrite)')
+  .option('-t, --transform <step>', 'transform applied before resizing, repeatable and in order (e.g. crop=16:9,attention, rotate=90, flip, flatten=#ffffff)', collect, [])
+  .option('--max-size <size>', 'largest output size in bytes or with a unit (e.g. 200KB, 1.5MB); the quality is lowered until it fits')
+  .option('--min-quality <n>', 'lowest quality tried to fit --max-size (defaults to 30)')
+  .option('--downscale', 'step down the dimensions when --max-size does not fit at --min-quality')
+  .option('--watermark <image>', 'composite this image (e.g. PNG or SVG) over every output')
+  .option('--watermark-text <text>', 'composite this text over every output')
+  .option('--watermark-gravity <gravity>', 'where the watermark is placed (centre, north, northeast, ..., northwest; defaults to southeast)')
+  .option('--watermark-offset <x,y>', 'pixels the watermark is moved away from the edges it is placed at')
+  .option('--watermark-opacity <0-1>', 'watermark opacity (defaults to 1)')
+  .option('--watermark-scale <0-1>', 'watermark width as a fraction of the output width (defaults to 0.2)')
+  .option('--watermark-tile', 'repeat the watermark across the whole output')
+  .option('--frame <n>', 'convert only this frame (1-based) of animated sources, e.g. to a still format')
+  .option('--first-frame', 'convert only the first frame of animated sources')
+  .option('-c, --concurrency <n>', 'number of files converted in parallel (defaults to the CPU count)')
+  .option('-i, --incremental', 'skip files whose content and options are unchanged since the last run')
+  .option('--overwrite', 'overwrite existing output directories and files without asking')
+  .option('--skip-existing', 'keep existing output files and skip their sources')
+  .option('--fail-if-exists', 'fail if the output directory or an output file already exists')
+  .option('--continue-on-error', 'keep converting after a file fails and report failures at the end')
+  .option('--max-errors <n>', 'abort once this many files have failed (implies --continue-on-error)')
+  .option('--include <glob>', 'only convert files matching this glob, repeatable', collect, [])
+  .option('--exclude <glob>', 'skip files and directories matching this glob, repeatable', collect, [])
+  .option('--ignore-file <path>', 'skip paths listed in a .gitignore-style file')
+  .option('--max-depth <n>', 'maximum number of subdirectory levels to descend with --recursive')
+  .option('--strip', 'strip all metadata (EXIF including GPS, ICC, XMP) from outputs')
+  .option('--keep-metadata', 'keep EXIF, ICC, XMP and IPTC metadata from the source')
+  .option('--keep-icc', 'keep only the source ICC color profile')
+  .option('--auto-orient', 'rotate images according to their EXIF orientation')
+  .option('--srgb', 'convert to the sRGB color space')
+  .option('--copyright <text>', 'set the EXIF copyright field')
+  .option('--artist <name>', 'set the EXIF artist field')
+  .option('--in-place', 'replace each input with its optimized version (requires --format same)')
+  .option('-w, --watch', 'keep converting images in the input directory as they are added, changed or deleted')
+  .option('-e, --encoder <setting>', 'encoder option as <format>.<option>=<value>, repeatable (e.g. webp.effort=6)', collect, [])
+  .option('-p, --preset <name>', 'apply a named preset from the config file (flags override its values)')
+  .option('--config <path>', 'config file to read presets from (defaults to magic-images.config.{json,js,ts} or package.json)')
+  .option('--dry-run', 'print the planned outputs of each file, and which rule it matches, without writing anything')
+  .option('--json', 'print the dry-run plan as JSON')
+  .action(async (path, { encoder, transform, watch, preset, config, dryRun, json, ...options }, command: Command) => {
+    try {
+      const loadedConfig = preset !== undefined || config !== undefined ? await loadConfig({ configPath: config }) : undefined;
+      const presetOptions = preset !== undefined ? resolvePreset(loadedConfig, preset) : {};
+      const resolved = applyPreset(
+        presetOptions,
+        { ...options, encoder: parseEncoderSettings(encoder), transforms: parseTransformSteps(transform) },
+        getExplicitOptions(command)
+      );
+      const convertOptions = {
+        ...resolved,
+        // Progress would corrupt the image written to stdout
+        onProgress: path === STDIN_PATH ? undefined : createConsoleReporter({ savings: resolved.format === 'same' }),
+      };
+      
+      if (json && !dryRun) {
+        throw new Error('--json can only be used with --dry-run');
+      }
+      if (dryRun) {
+        const plan = await planConversion(path, resolved);
+        console.log(json ? JSON.stringify(plan, null, 2) : formatPlan(plan));
+        if (plan.collisions.length > 0 && plan.onCollision === 'error') {
+          process.exit(EXIT_FILES_FAILED);
+        }
+        return;
+      }
+      
+      if (watch) {
+        const watcher = await watchImages(path, convertOptions);
+        process.once('SIGINT', async () => {
+          await watcher.close();
+          console.log('Stopped watching');
+          process.exit(0);
+        });
+        return;
+      }
+      
+      const summary = await convertImages(path, convertOptions);
+      if (summary.stats.failed > 0) {
+        process.exit(EXIT_FILES_FAILED);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error('Error:', error.message);
+      } else {
+        console.error('Error:', String(error));
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command('optimize')
+  .description('Re-encode images in their own format, keeping originals that do not get smaller')
+  .argument('<path>', 'path to image file, directory, zip or tar archive, or - to optimize stdin to stdout')
+  .option('-q, --quality <number>', 'output quality (1-100) for JPEG, WebP, AVIF, HEIF and TIFF', '80')
+  .option('-o, --output <output>', 'output directory')
+  .option('-r, --recursive', 'optimize files in subdirectories recursively')
+  .option('--in-place', 'replace each input with its optimized version')
+  .option('-c, --concurrency <n>', 'number of files optimized in parallel (defaults to the CPU count)')
+  .option('--overwrite', 'overwrite existing output directories and files without asking')
+  .option('--continue-on-error', 'keep optimizing after a file fails and report failures at the end')
+  .option('--include <glob>', 'only optimize files matching this glob, repeatable', collect, [])
+  .option('--exclude <glob>', 'skip files and directories matching this glob, repeatable', collect, [])
+  .option('--keep-metadata', 'keep EXIF, ICC, XMP and IPTC metadata from the source')
+  .option('--auto-orient', 'rotate images according to their EXIF orientation and always write the re-encoded image')
+  .option('-e, --encoder <setting>', 'encoder option as <format>.<option>=<value>, repeatable (e.g. jpeg.mozjpeg)', collect, [])
+  .action(async (path, { encoder, ...options }) => {
+    try {
+      const summary = await convertImages(path, {
+        ...options,
+        format: 'same',
+        zip: false,
+        encoder: parseEncoderSettings(encoder),
+        onProgress: path === STDIN_PATH ? undefined : createConsoleReporter({ savings: true }),
+      });
+      if (summary.stats.failed > 0) {
+        process.exit(EXIT_FILES_FAILED);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error('Error:', error.message);
+      } else {
+        console.error('Error:', String(error));
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command('inspect')
+  .description('Report image metadata')
+  .argument('<path>', 'path to image file or directory')
+  .option('-r, --recursive', 'inspect files in subdirectories recursively')
+  .option('--json', 'print the report as JSON')
   .action(async (path, options) => {
     try {
-      await convertImages(path, options);
+      const reports = await inspectImages(path, options);
+      console.log(options.json ? JSON.stringify(reports, null, 2) : formatReportTable(reports));
+      if (reports.some((report) => report.error)) {
+        process.exit(EXIT_FILES_FAILED);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error('Error:', error.message);
+      } else {
+        console.error('Error:', String(error));
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command('sprite')
+  .description('Pack the images of a directory into a sprite sheet with a coordinate map')
+  .argument('<dir>', 'directory of images')
+  .option('-o, --output <file>', 'sheet path; maps are written next to it with .json and .css extensions (defaults to sprite.<format>)')
+  .option('-f, --format <format>', 'sheet format (png, webp, jpg, avif, tiff, gif, heif)', 'png')
+  .option('-q, --quality <number>', 'sheet quality (1-100) for JPEG, WebP, AVIF, HEIF and TIFF', '95')
+  .option('-r, --recursive', 'include images in subdirectories recursively')
+  .option('--include <glob>', 'only include files matching this glob, repeatable', collect, [])
+  .option('--exclude <glob>', 'skip files and directories matching this glob, repeatable', collect, [])
+  .option('--layout <layout>', 'grid of equal cells, or packed onto shelves (grid, packed; defaults to grid)')
+  .option('--padding <pixels>', 'pixels between neighbouring images (defaults to 0)')
+  .option('--max-width <pixels>', 'largest sheet width')
+  .option('--scale <n>', 'pixel density of the sources, e.g. 2 for @2x images; the CSS map is divided by it (defaults to 1)')
+  .option('--background <color>', 'sheet background (defaults to transparent)')
+  .option('--map <list>', 'comma-separated coordinate maps to write (json, css; defaults to both)')
+  .option('--prefix <class>', 'class name prefix of the CSS map (defaults to sprite)')
+  .action(async (dir, options) => {
+    try {
+      const sheet = await spriteImages(dir, options);
+      console.log(`Sprite: ${sheet.path} (${sheet.sprites.length} images, ${sheet.width}x${sheet.height})`);
+      for (const map of sheet.maps) {
+        console.log(`Map: ${map}`);
+      }
     } catch (error) {
       if (error instanceof Error) {
         console.error('Error:', error.message);
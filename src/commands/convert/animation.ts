@@ -0,0 +1,64 @@
+import sharp from 'sharp';
+import { getEncoderKey } from './encode.js';
+import type { ConversionSettings, ConvertOptions } from './types.js';
+
+/**
+ * Output formats that keep every frame of an animated or multi-page source
+ */
+export const MULTI_FRAME_FORMATS = ['gif', 'webp', 'tiff'];
+
+/**
+ * Validates the frame options and returns the 1-based frame to convert, if any
+ */
+export function resolveFrame(options: ConvertOptions): number | undefined {
+  const { frame, firstFrame } = options;
+
+  if (frame === undefined) {
+    return firstFrame ? 1 : undefined;
+  }
+  if (firstFrame) {
+    throw new Error('A frame number cannot be combined with first frame');
+  }
+  if (!/^\d+$/.test(frame) || parseInt(frame, 10) < 1) {
+    throw new Error(`Invalid frame value: ${frame}. Frame must be a positive integer`);
+  }
+  return parseInt(frame, 10);
+}
+
+/**
+ * Counts the frames a source keeps when encoded in the given formats
+ *
+ * Animated sources keep all their frames when every format can hold them.
+ * Otherwise, either for a still format such as JPEG, PNG or AVIF, or for the
+ * transform chain, only the first frame is converted and `warn` says so,
+ * unless a frame was chosen. A chosen frame must exist in the source.
+ */
+export async function countOutputFrames(
+  input: string | Buffer,
+  formats: string[],
+  settings: ConversionSettings,
+  warn: (message: string) => void
+): Promise<number> {
+  const { pages = 1 } = await sharp(input).metadata();
+
+  if (settings.frame !== undefined) {
+    if (settings.frame > pages) {
+      throw new Error(`Frame ${settings.frame} is out of range: the source has ${pages} frame(s)`);
+    }
+    return 1;
+  }
+  if (pages === 1) {
+    return 1;
+  }
+
+  if (settings.transforms) {
+    warn(`Transforms cannot be applied to animations; converting only the first of ${pages} frames. Choose a frame with --frame <n> or --first-frame`);
+    return 1;
+  }
+  const still = formats.find((format) => !MULTI_FRAME_FORMATS.includes(getEncoderKey(format)));
+  if (still) {
+    warn(`${still} cannot hold animations; converting only the first of ${pages} frames. Choose a frame with --frame <n> or --first-frame`);
+    return 1;
+  }
+  return pages;
+}
@@ -0,0 +1,150 @@
+import type { ConvertOptions, SizeBudget } from './types.js';
+
+/**
+ * Lowest quality tried when no minimum is given
+ */
+export const DEFAULT_MIN_QUALITY = 30;
+
+/**
+ * Factor the dimensions are multiplied by on each downscale step
+ */
+const DOWNSCALE_STEP = 0.9;
+
+/**
+ * Outputs are never downscaled below this fraction of their dimensions
+ */
+const MIN_SCALE = 0.25;
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+};
+
+/**
+ * Parses a byte size such as `204800`, `200KB` or `1.5MB`, using 1024-byte kilobytes
+ */
+export function parseByteSize(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb)?$/i.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const bytes = Math.floor(parseFloat(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]);
+  return bytes > 0 ? bytes : undefined;
+}
+
+/**
+ * Validates the size budget options and builds the budget settings
+ */
+export function resolveBudget(options: ConvertOptions): SizeBudget | undefined {
+  const { maxSize: rawMaxSize, minQuality: rawMinQuality, downscale } = options;
+
+  if (rawMaxSize === undefined) {
+    if (rawMinQuality !== undefined || downscale) {
+      throw new Error('Min quality and downscale require a max size');
+    }
+    return undefined;
+  }
+
+  const maxSize = parseByteSize(rawMaxSize);
+  if (maxSize === undefined) {
+    throw new Error(`Invalid max size: ${rawMaxSize}. Use a number of bytes or a size such as 200KB or 1.5MB`);
+  }
+
+  let minQuality = DEFAULT_MIN_QUALITY;
+  if (rawMinQuality !== undefined) {
+    const value = parseInt(rawMinQuality, 10);
+    if (!/^\d+$/.test(rawMinQuality) || value < 1 || value > 100) {
+      throw new Error(`Invalid min quality value: ${rawMinQuality}. Min quality must be between 1 and 100`);
+    }
+    minQuality = value;
+  }
+
+  return { maxSize, minQuality, downscale: Boolean(downscale) };
+}
+
+/**
+ * An encoded output considered by the size search
+ */
+export interface BudgetCandidate {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * The output chosen by the size search
+ */
+export interface BudgetResult extends BudgetCandidate {
+  /** Quality the output was encoded at, when the format takes one */
+  quality?: number;
+  /** Whether the dimensions were stepped down to fit */
+  downscaled: boolean;
+}
+
+/**
+ * Encodes the output at a quality, optionally resized to the given dimensions
+ */
+export type BudgetEncoder = (quality: number | undefined, size?: { width: number; height: number }) => Promise<BudgetCandidate>;
+
+/**
+ * Finds the highest quality whose output fits the size budget
+ *
+ * The output is first encoded at `maxQuality`; when it is too large, the
+ * quality is binary-searched down to the budget's minimum. Formats that take
+ * no quality (`maxQuality` undefined) are only encoded once per size. When
+ * even the minimum quality does not fit and downscaling is enabled, the
+ * dimensions are stepped down by 10% and the search repeats. Throws when
+ * nothing fits.
+ */
+export async function encodeWithinBudget(budget: SizeBudget, maxQuality: number | undefined, encode: BudgetEncoder): Promise<BudgetResult> {
+  const { maxSize, minQuality, downscale } = budget;
+  const fits = (candidate: BudgetCandidate) => candidate.data.length <= maxSize;
+
+  const full = await encode(maxQuality);
+  if (fits(full)) {
+    return { ...full, quality: maxQuality, downscaled: false };
+  }
+
+  let smallest = { candidate: full, quality: maxQuality };
+  for (let scale = 1; scale >= MIN_SCALE; scale *= DOWNSCALE_STEP) {
+    const size = scale < 1
+      ? { width: Math.max(1, Math.round(full.width * scale)), height: Math.max(1, Math.round(full.height * scale)) }
+      : undefined;
+
+    let best: BudgetResult | undefined;
+    if (maxQuality === undefined) {
+      const candidate = size ? await encode(undefined, size) : full;
+      smallest = { candidate, quality: undefined };
+      if (fits(candidate)) {
+        best = { ...candidate, downscaled: scale < 1 };
+      }
+    } else {
+      // The maximum quality at full size is already known not to fit
+      let low = Math.min(minQuality, maxQuality);
+      let high = size ? maxQuality : maxQuality - 1;
+      while (low <= high) {
+        const quality = Math.floor((low + high) / 2);
+        const candidate = await encode(quality, size);
+        if (fits(candidate)) {
+          best = { ...candidate, quality, downscaled: scale < 1 };
+          low = quality + 1;
+        } else {
+          smallest = { candidate, quality };
+          high = quality - 1;
+        }
+      }
+    }
+
+    if (best) {
+      return best;
+    }
+    if (!downscale) {
+      break;
+    }
+  }
+
+  const { candidate, quality } = smallest;
+  const at = [quality !== undefined && `quality ${quality}`, `${candidate.width}x${candidate.height}`].filter(Boolean).join(' and ');
+  throw new Error(`Output does not fit the max size of ${maxSize} bytes: ${candidate.data.length} bytes at ${at}`);
+}
@@ -0,0 +1,88 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import type { CacheEntry, ConversionCache, ConversionSettings } from './types.js';
+
+export const CACHE_FILE_NAME = '.magic-images-cache.json';
+
+const CACHE_VERSION = 1;
+
+/**
+ * Computes the SHA-256 hash of a file's content
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Computes a hash of the settings that affect the written output
+ */
+export function hashSettings(settings: ConversionSettings): string {
+  const { format, quality, encoder, resize, variants, metadata, naming, budget, watermark, transforms, frame } = settings;
+  // The watermark overlay is hashed rather than serialized byte by byte
+  const overlay = watermark && createHash('sha256').update(watermark.overlay).digest('hex');
+  const effective = JSON.stringify({
+    format,
+    quality,
+    encoder,
+    resize,
+    variants,
+    metadata,
+    template: naming.template,
+    budget,
+    watermark: watermark && { ...watermark, overlay },
+    transforms,
+    frame,
+  });
+  return createHash('sha256').update(effective).digest('hex');
+}
+
+/**
+ * Loads the conversion cache from the output directory
+ *
+ * A missing, unreadable or outdated cache file simply starts an empty cache.
+ */
+export async function loadCache(outputDir: string, settings: ConversionSettings): Promise<ConversionCache> {
+  const cache: ConversionCache = { optionsHash: hashSettings(settings), entries: {} };
+  
+  try {
+    const content = JSON.parse(await fsPromises.readFile(path.join(outputDir, CACHE_FILE_NAME), 'utf8'));
+    if (content && content.version === CACHE_VERSION && typeof content.entries === 'object') {
+      cache.entries = content.entries;
+    }
+  } catch {
+    // No usable cache yet
+  }
+  
+  return cache;
+}
+
+/**
+ * Writes the conversion cache to the output directory
+ */
+export async function saveCache(outputDir: string, cache: ConversionCache): Promise<void> {
+  const entries = Object.fromEntries(Object.entries(cache.entries).sort(([a], [b]) => a.localeCompare(b)));
+  const content = JSON.stringify({ version: CACHE_VERSION, entries }, null, 2) + '\n';
+  await fsPromises.writeFile(path.join(outputDir, CACHE_FILE_NAME), content);
+}
+
+/**
+ * Checks whether a cached conversion still matches the source and its outputs exist
+ */
+export async function isUpToDate(entry: CacheEntry | undefined, hash: string, optionsHash: string, outputDir: string): Promise<boolean> {
+  if (!entry || entry.hash !== hash || entry.options !== optionsHash) {
+    return false;
+  }
+  
+  try {
+    await Promise.all(entry.outputs.map((output) => fsPromises.access(path.join(outputDir, output))));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,380 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { createJiti } from 'jiti';
+import { mergeEncoderOptions, validateEncoderOptions } from './encode.js';
+import { RULE_OPTIONS } from './rules.js';
+import { parseTransformSteps, validateTransforms } from './transform.js';
+import type { ConversionRule, ConvertOptions, EncoderOptions, MagicImagesConfig, TransformStep } from './types.js';
+
+/**
+ * Config file names looked up in the working directory, in order
+ */
+export const CONFIG_FILE_NAMES = ['magic-images.config.json', 'magic-images.config.js', 'magic-images.config.ts'];
+
+/**
+ * package.json key holding the config when there is no config file
+ */
+const PACKAGE_CONFIG_KEY = 'magicImages';
+
+/**
+ * How a preset option is written in the config
+ *
+ * - `string`: string or number, normalized to a string
+ * - `list`: comma-separated string or array, normalized to a comma-separated string
+ * - `globs`: string or array of strings, normalized to an array
+ * - `transforms`: array of transform steps as objects or in CLI syntax, normalized to objects
+ * - `rules`: array of rules, whose options are normalized like preset options
+ */
+type OptionKind = 'string' | 'boolean' | 'list' | 'globs' | 'encoder' | 'transforms' | 'rules';
+
+const OPTION_KINDS: Record<OptionKind, string> = {
+  string: 'a string or number',
+  boolean: 'true or false',
+  list: 'a comma-separated string or an array',
+  globs: 'a string or an array of strings',
+  encoder: 'an object of per-format encoder options',
+  transforms: 'an array of transform steps',
+  rules: 'an array of rules',
+};
+
+/**
+ * Convert options accepted in a preset
+ */
+const PRESET_OPTIONS: Record<string, OptionKind> = {
+  format: 'string',
+  quality: 'string',
+  output: 'string',
+  recursive: 'boolean',
+  zip: 'boolean',
+  archive: 'string',
+  compressionLevel: 'string',
+  width: 'string',
+  height: 'string',
+  fit: 'string',
+  position: 'string',
+  background: 'string',
+  enlarge: 'boolean',
+  widths: 'list',
+  formats: 'list',
+  variantTemplate: 'string',
+  manifest: 'string',
+  outputTemplate: 'string',
+  onCollision: 'string',
+  maxSize: 'string',
+  minQuality: 'string',
+  downscale: 'boolean',
+  watermark: 'string',
+  watermarkText: 'string',
+  watermarkGravity: 'string',
+  watermarkOffset: 'string',
+  watermarkOpacity: 'string',
+  watermarkScale: 'string',
+  watermarkTile: 'boolean',
+  transforms: 'transforms',
+  frame: 'string',
+  firstFrame: 'boolean',
+  encoder: 'encoder',
+  concurrency: 'string',
+  incremental: 'boolean',
+  overwrite: 'boolean',
+  skipExisting: 'boolean',
+  failIfExists: 'boolean',
+  continueOnError: 'boolean',
+  maxErrors: 'string',
+  include: 'globs',
+  exclude: 'globs',
+  ignoreFile: 'string',
+  maxDepth: 'string',
+  strip: 'boolean',
+  keepMetadata: 'boolean',
+  keepIcc: 'boolean',
+  autoOrient: 'boolean',
+  srgb: 'boolean',
+  copyright: 'string',
+  artist: 'string',
+  inPlace: 'boolean',
+  rules: 'rules',
+};
+
+/**
+ * A config that has been loaded and validated
+ */
+export interface LoadedConfig {
+  /** File the config was read from */
+  path: string;
+  /** Presets normalized to convert options */
+  presets: Record<string, Partial<ConvertOptions>>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): value is string | number {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+/**
+ * Normalizes a preset option value, returning undefined when it has the wrong type
+ */
+function normalizeValue(kind: OptionKind, value: unknown): unknown {
+  switch (kind) {
+    case 'string':
+      return isScalar(value) ? String(value) : undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'list':
+      if (typeof value === 'string') {
+        return value;
+      }
+      return Array.isArray(value) && value.every(isScalar) ? value.join(',') : undefined;
+    case 'globs':
+      if (typeof value === 'string') {
+        return [value];
+      }
+      return Array.isArray(value) && value.every((item) => typeof item === 'string') ? value : undefined;
+    case 'encoder':
+      return isPlainObject(value) ? value : undefined;
+    case 'transforms':
+      if (!Array.isArray(value) || !value.every((step) => typeof step === 'string' || isPlainObject(step))) {
+        return undefined;
+      }
+      return value.map((step) => (typeof step === 'string' ? parseTransformSteps([step])[0] : step));
+    case 'rules':
+      return Array.isArray(value) ? value : undefined;
+  }
+}
+
+/**
+ * Validates a set of options and normalizes them to convert options
+ */
+function validateOptions(
+  options: Record<string, unknown>,
+  allowed: string[],
+  key: string,
+  fail: (message: string) => never
+): Partial<ConvertOptions> {
+  const normalizedOptions: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(options)) {
+    if (!allowed.includes(name)) {
+      fail(`${key}.${name} is not a known option`);
+    }
+
+    const kind = PRESET_OPTIONS[name];
+    const describe = (error: unknown) => `${key}.${name}: ${error instanceof Error ? error.message : String(error)}`;
+    let normalized: unknown;
+    try {
+      // Transform steps written as strings are parsed here
+      normalized = normalizeValue(kind, value);
+    } catch (error) {
+      fail(describe(error));
+    }
+    if (normalized === undefined) {
+      fail(`${key}.${name} must be ${OPTION_KINDS[kind]}`);
+    }
+    try {
+      if (kind === 'encoder') {
+        validateEncoderOptions(normalized as EncoderOptions);
+      } else if (kind === 'transforms') {
+        validateTransforms(normalized as TransformStep[]);
+      }
+    } catch (error) {
+      fail(describe(error));
+    }
+    normalizedOptions[name] = kind === 'rules' ? validateRules(normalized as unknown[], `${key}.${name}`, fail) : normalized;
+  }
+
+  return normalizedOptions as Partial<ConvertOptions>;
+}
+
+/**
+ * Validates the rules of a preset
+ */
+function validateRules(rules: unknown[], key: string, fail: (message: string) => never): ConversionRule[] {
+  return rules.map((rule, index) => {
+    const ruleKey = `${key}[${index}]`;
+    if (!isPlainObject(rule)) {
+      fail(`${ruleKey} must be an object`);
+    }
+
+    const { name, match, skip, options = {}, ...rest } = rule;
+    const unknownKey = Object.keys(rest)[0];
+    if (unknownKey !== undefined) {
+      fail(`${ruleKey}.${unknownKey} is not a known key. Supported keys: name, match, skip, options`);
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      fail(`${ruleKey}.name must be a string`);
+    }
+    const globs = normalizeValue('globs', match) as string[] | undefined;
+    if (!globs?.length) {
+      fail(`${ruleKey}.match must be a glob or a non-empty array of globs`);
+    }
+    if (skip !== undefined && typeof skip !== 'boolean') {
+      fail(`${ruleKey}.skip must be true or false`);
+    }
+    if (!isPlainObject(options)) {
+      fail(`${ruleKey}.options must be an object`);
+    }
+
+    return {
+      name: name as string | undefined,
+      match: globs as string[],
+      skip: skip as boolean | undefined,
+      options: validateOptions(options as Record<string, unknown>, RULE_OPTIONS, `${ruleKey}.options`, fail),
+    };
+  });
+}
+
+/**
+ * Validates a single preset and normalizes it to convert options
+ */
+function validatePreset(preset: unknown, key: string, fail: (message: string) => never): Partial<ConvertOptions> {
+  if (!isPlainObject(preset)) {
+    fail(`${key} must be an object`);
+  }
+
+  return validateOptions(preset as Record<string, unknown>, Object.keys(PRESET_OPTIONS), key, fail);
+}
+
+/**
+ * Validates a config and normalizes its presets
+ *
+ * Errors name the config file and the offending key, e.g.
+ * `presets.web.quality must be a string or number`.
+ */
+export function validateConfig(config: unknown, source: string): LoadedConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config in ${source}: ${message}`);
+  };
+
+  if (!isPlainObject(config)) {
+    fail('expected an object');
+  }
+  const { presets = {}, ...rest } = config as MagicImagesConfig & Record<string, unknown>;
+  const unknownKey = Object.keys(rest)[0];
+  if (unknownKey !== undefined) {
+    fail(`${unknownKey} is not a known key. Supported keys: presets`);
+  }
+  if (!isPlainObject(presets)) {
+    fail('presets must be an object');
+  }
+
+  return {
+    path: source,
+    presets: Object.fromEntries(
+      Object.entries(presets).map(([name, preset]) => [name, validatePreset(preset, `presets.${name}`, fail)])
+    ),
+  };
+}
+
+/**
+ * Reads the raw config from a config file or package.json
+ */
+async function readConfigFile(filePath: string): Promise<unknown> {
+  const extension = path.extname(filePath);
+
+  if (extension === '.json') {
+    let content: unknown;
+    try {
+      content = JSON.parse(await fsPromises.readFile(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (path.basename(filePath) !== 'package.json') {
+      return content;
+    }
+    if (!isPlainObject(content) || content[PACKAGE_CONFIG_KEY] === undefined) {
+      throw new Error(`No "${PACKAGE_CONFIG_KEY}" key in ${filePath}`);
+    }
+    return content[PACKAGE_CONFIG_KEY];
+  }
+
+  if (extension === '.js' || extension === '.mjs' || extension === '.cjs') {
+    const module = await import(pathToFileURL(path.resolve(filePath)).href);
+    return module.default;
+  }
+  if (extension === '.ts' || extension === '.mts' || extension === '.cts') {
+    // Node cannot import TypeScript on its own
+    return createJiti(import.meta.url).import(path.resolve(filePath), { default: true });
+  }
+
+  throw new Error(`Unsupported config file: ${filePath}. Config files must be .json, .js or .ts`);
+}
+
+/**
+ * Finds the config in a directory: a config file, or else package.json with a `magicImages` key
+ */
+async function findConfigFile(cwd: string): Promise<string | undefined> {
+  for (const name of CONFIG_FILE_NAMES) {
+    const filePath = path.join(cwd, name);
+    try {
+      await fsPromises.access(filePath);
+      return filePath;
+    } catch {
+      // Try the next name
+    }
+  }
+
+  const packagePath = path.join(cwd, 'package.json');
+  try {
+    const content = JSON.parse(await fsPromises.readFile(packagePath, 'utf8'));
+    return isPlainObject(content) && content[PACKAGE_CONFIG_KEY] !== undefined ? packagePath : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Loads and validates the config from an explicit path or the working directory
+ *
+ * Resolves with undefined when no path is given and nothing is found.
+ */
+export async function loadConfig(options: { cwd?: string; configPath?: string } = {}): Promise<LoadedConfig | undefined> {
+  const filePath = options.configPath ?? await findConfigFile(options.cwd ?? process.cwd());
+  if (!filePath) {
+    return undefined;
+  }
+
+  return validateConfig(await readConfigFile(filePath), filePath);
+}
+
+/**
+ * Looks up a preset by name
+ */
+export function resolvePreset(config: LoadedConfig | undefined, name: string): Partial<ConvertOptions> {
+  if (!config) {
+    throw new Error(`Unknown preset: ${name}. No magic-images config file or "${PACKAGE_CONFIG_KEY}" key in package.json was found`);
+  }
+  if (!Object.hasOwn(config.presets, name)) {
+    const available = Object.keys(config.presets);
+    throw new Error(`Unknown preset: ${name}. ${available.length ? `Available presets: ${available.join(', ')}` : `No presets are defined in ${config.path}`}`);
+  }
+  return config.presets[name];
+}
+
+/**
+ * Layers a preset over default options and explicitly set options over the preset
+ *
+ * `explicit` names the options given on the command line. Encoder options are
+ * merged per format, so `-e webp.effort=6` keeps the preset's other WebP options.
+ * Transform steps given on the command line replace the preset's chain.
+ */
+export function applyPreset(preset: Partial<ConvertOptions>, options: ConvertOptions, explicit: string[]): ConvertOptions {
+  const overrides = Object.fromEntries(Object.entries(options).filter(([key]) => explicit.includes(key)));
+  return {
+    ...options,
+    ...preset,
+    ...overrides,
+    encoder: mergeEncoderOptions(preset.encoder ?? {}, options.encoder ?? {}),
+    transforms: options.transforms?.length ? options.transforms : preset.transforms,
+  };
+}
+
+/**
+ * Identity helper that types a `magic-images.config.ts`
+ */
+export function defineConfig(config: MagicImagesConfig): MagicImagesConfig {
+  return config;
+}
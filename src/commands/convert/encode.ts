@@ -0,0 +1,208 @@
+import type { FormatEnum, Sharp } from 'sharp';
+import type { EncoderOptions } from './types.js';
+
+/**
+ * Output formats accepted by `convert`, including aliases
+ */
+export const SUPPORTED_FORMATS = ['jpg', 'jpeg', 'png', 'webp', 'avif', 'tiff', 'tif', 'gif', 'heif'];
+
+/**
+ * Pseudo output format that re-encodes each input in its detected format
+ */
+export const SAME_FORMAT = 'same';
+
+type EncoderValue = number | boolean | string;
+
+/**
+ * Checks a single encoder option value, returning an error description when invalid
+ */
+type EncoderValidator = (value: EncoderValue) => string | null;
+
+const integer = (min: number, max: number): EncoderValidator => (value) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+    ? null
+    : `must be an integer between ${min} and ${max}`;
+
+const decimal = (min: number, max: number): EncoderValidator => (value) =>
+  typeof value === 'number' && value >= min && value <= max
+    ? null
+    : `must be a number between ${min} and ${max}`;
+
+const flag: EncoderValidator = (value) => (typeof value === 'boolean' ? null : 'must be true or false');
+
+const oneOf = (...choices: string[]): EncoderValidator => (value) =>
+  typeof value === 'string' && choices.includes(value) ? null : `must be one of ${choices.join(', ')}`;
+
+/**
+ * Encoder options accepted for each output format
+ */
+const ENCODER_OPTIONS: Record<keyof EncoderOptions, Record<string, EncoderValidator>> = {
+  jpeg: {
+    quality: integer(1, 100),
+    progressive: flag,
+    mozjpeg: flag,
+    chromaSubsampling: oneOf('4:2:0', '4:4:4'),
+    optimiseCoding: flag,
+  },
+  png: {
+    compressionLevel: integer(0, 9),
+    progressive: flag,
+    adaptiveFiltering: flag,
+    palette: flag,
+    quality: integer(1, 100),
+    colors: integer(2, 256),
+    dither: decimal(0, 1),
+    effort: integer(1, 10),
+  },
+  webp: {
+    quality: integer(1, 100),
+    alphaQuality: integer(0, 100),
+    lossless: flag,
+    nearLossless: flag,
+    smartSubsample: flag,
+    effort: integer(0, 6),
+  },
+  avif: {
+    quality: integer(1, 100),
+    lossless: flag,
+    effort: integer(0, 9),
+    chromaSubsampling: oneOf('4:2:0', '4:4:4'),
+  },
+  heif: {
+    quality: integer(1, 100),
+    lossless: flag,
+    effort: integer(0, 9),
+    chromaSubsampling: oneOf('4:2:0', '4:4:4'),
+  },
+  tiff: {
+    quality: integer(1, 100),
+    compression: oneOf('none', 'jpeg', 'deflate', 'packbits', 'lzw', 'webp', 'zstd'),
+    predictor: oneOf('none', 'horizontal', 'float'),
+  },
+  gif: {
+    colors: integer(2, 256),
+    effort: integer(1, 10),
+    dither: decimal(0, 1),
+  },
+};
+
+/**
+ * Formats whose encoders take the top-level quality as their default
+ */
+const QUALITY_FORMATS: (keyof EncoderOptions)[] = ['jpeg', 'webp', 'avif', 'heif', 'tiff'];
+
+/**
+ * Maps an output format (or alias) to its encoder options key
+ */
+export function getEncoderKey(format: string): keyof EncoderOptions {
+  if (format === 'jpg') {
+    return 'jpeg';
+  }
+  if (format === 'tif') {
+    return 'tiff';
+  }
+  return format as keyof EncoderOptions;
+}
+
+/**
+ * File extension of an output format
+ *
+ * The prebuilt libvips only encodes HEIF with AV1, which makes it AVIF, so
+ * HEIF outputs are named `.avif` to match their content.
+ */
+export function getOutputExtension(format: string): string {
+  return format === 'heif' ? 'avif' : format;
+}
+
+/**
+ * Whether the encoder for an output format takes the top-level quality
+ */
+export function formatUsesQuality(format: string): boolean {
+  return QUALITY_FORMATS.includes(getEncoderKey(format));
+}
+
+/**
+ * Validates the per-format encoder options
+ */
+export function validateEncoderOptions(encoder: EncoderOptions): void {
+  for (const [format, options] of Object.entries(encoder)) {
+    if (!Object.hasOwn(ENCODER_OPTIONS, format)) {
+      throw new Error(`Unsupported encoder format: ${format}. Supported encoder formats: ${Object.keys(ENCODER_OPTIONS).join(', ')}`);
+    }
+
+    const validators = ENCODER_OPTIONS[format as keyof EncoderOptions];
+    for (const [name, value] of Object.entries(options ?? {})) {
+      if (!Object.hasOwn(validators, name)) {
+        throw new Error(`Unsupported ${format} encoder option: ${name}. Supported options: ${Object.keys(validators).join(', ')}`);
+      }
+
+      const problem = validators[name](value as EncoderValue);
+      if (problem) {
+        throw new Error(`Invalid ${format}.${name} value: ${value}. It ${problem}`);
+      }
+    }
+  }
+}
+
+/**
+ * Merges encoder options per format, with `override` taking precedence option by option
+ */
+export function mergeEncoderOptions(base: EncoderOptions, override: EncoderOptions): EncoderOptions {
+  const merged: Record<string, object | undefined> = { ...base };
+  for (const [format, options] of Object.entries(override)) {
+    merged[format] = { ...merged[format], ...options };
+  }
+  return merged as EncoderOptions;
+}
+
+/**
+ * Parses `format.option=value` settings from the CLI into encoder options
+ *
+ * A bare `format.option` enables a boolean option; numeric and boolean
+ * values are converted so they can be validated like programmatic options.
+ */
+export function parseEncoderSettings(settings: string[]): EncoderOptions {
+  const encoder: Record<string, Record<string, EncoderValue>> = {};
+
+  for (const setting of settings) {
+    const match = /^(\w+)\.(\w+)(?:=(.*))?$/.exec(setting.trim());
+    if (!match) {
+      throw new Error(`Invalid encoder setting: ${setting}. Expected <format>.<option>=<value>`);
+    }
+
+    const [, rawFormat, name, rawValue] = match;
+    let value: EncoderValue = rawValue ?? true;
+    if (rawValue === 'true' || rawValue === 'false') {
+      value = rawValue === 'true';
+    } else if (rawValue !== undefined && rawValue.trim() !== '' && !isNaN(Number(rawValue))) {
+      value = Number(rawValue);
+    }
+
+    const format = getEncoderKey(rawFormat.toLowerCase());
+    encoder[format] = { ...encoder[format], [name]: value };
+  }
+
+  return encoder as EncoderOptions;
+}
+
+/**
+ * Applies the output format and its encoder options to a sharp pipeline
+ */
+export function applyOutputFormat(image: Sharp, format: string, quality: number, encoder: EncoderOptions = {}): Sharp {
+  const key = getEncoderKey(format);
+
+  let outputOptions: Record<string, unknown> = {};
+  if (QUALITY_FORMATS.includes(key)) {
+    outputOptions = { quality };
+  }
+  if (key === 'heif') {
+    // The prebuilt libvips only ships the AV1 encoder for HEIF
+    outputOptions.compression = 'av1';
+  }
+  outputOptions = { ...outputOptions, ...encoder[key] };
+
+  // Map formats to sharp-compatible format
+  const sharpFormat = format === 'jpeg' ? 'jpg' : format;
+
+  return image.toFormat(sharpFormat as keyof FormatEnum, outputOptions);
+}
@@ -1,18 +1,67 @@
 import * as fsPromises from 'fs/promises';
 import * as path from 'path';
-import * as readline from 'readline';
-import { createWriteStream } from 'fs';
-import sharp from 'sharp';
-import archiver from 'archiver';
-import { getImageFormat } from '../../utils/image.js';
-import type { ConvertOptions } from './types.js';
+import sharp, { type FitEnum, type ResizeOptions, type Sharp } from 'sharp';
+import { detectImageFormat, detectImageFormatFromBuffer } from '../../utils/image.js';
+import { createSequencer, getDefaultConcurrency, runPool } from '../../utils/pool.js';
+import { createGlobMatcher, createPathFilter, type WalkOptions } from '../../utils/walk.js';
+import { getTemplateTokens } from '../../utils/template.js';
+import {
+  applyOutputFormat,
+  formatUsesQuality,
+  getEncoderKey,
+  getOutputExtension,
+  mergeEncoderOptions,
+  SAME_FORMAT,
+  SUPPORTED_FORMATS,
+  validateEncoderOptions,
+} from './encode.js';
+import { DEFAULT_MANIFEST_NAME, DEFAULT_VARIANT_TEMPLATE, formatManifest, getVariantFileNames, writeVariants } from './variants.js';
+import { applyMetadata, resolveMetadata } from './metadata.js';
+import { hashFile, hashSettings, isUpToDate, loadCache, saveCache } from './cache.js';
+import { findRule, RULE_OPTIONS } from './rules.js';
+import { claimOutput, hashContent, needsEncodedOutput, renderOutputPath, resolveNaming, type OutputNameValues } from './naming.js';
+import { checkExistingOutput, ensureOutputDirectory, resolveOverwritePolicy } from './overwrite.js';
+import { createArchiveSink, createDirectorySink, createStreamSink, getArchivePath, resolveArchive } from './sink.js';
+import { openInput, STDIN_PATH, type InputSource } from './source.js';
+import { encodeWithinBudget, resolveBudget, type BudgetCandidate } from './budget.js';
+import { applyWatermark, resolveWatermark } from './watermark.js';
+import { prepareImage, validateTransforms } from './transform.js';
+import { countOutputFrames, resolveFrame } from './animation.js';
+import type {
+  ConversionEvent,
+  ConversionPlan,
+  ConversionSettings,
+  ConversionState,
+  ConversionStats,
+  ConversionSummary,
+  ConvertOptions,
+  FileResult,
+  FileStatus,
+  OutputFile,
+  OutputSink,
+  OutputClaim,
+  OutputCollision,
+  PlannedFile,
+  ResolvedRule,
+  RuleOptions,
+  VariantEntry,
+  VariantSettings,
+} from './types.js';
+
+const SUPPORTED_FITS = ['cover', 'contain', 'inside', 'outside', 'fill'];
+
+const SUPPORTED_POSITIONS = [
+  'centre', 'center', 'north', 'northeast', 'east', 'southeast',
+  'south', 'southwest', 'west', 'northwest', 'entropy', 'attention',
+];
+
+const VARIANT_TEMPLATE_TOKENS = ['name', 'width', 'height', 'ext'];
 
 /**
  * Validates the output format
  */
 function validateFormat(format: string): boolean {
-  const supportedFormats = ['jpg', 'jpeg', 'png', 'webp'];
-  return supportedFormats.includes(format.toLowerCase());
+  return SUPPORTED_FORMATS.includes(format.toLowerCase());
 }
 
 /**
@@ -24,228 +73,949 @@ function validateQuality(quality: string): boolean {
 }
 
 /**
- * Prompts user for confirmation
+ * Validates a positive integer option value
  */
-async function confirmAction(message: string): Promise<boolean> {
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-  
-  return new Promise((resolve) => {
-    rl.question(`${message} (y/N): `, (answer) => {
-      rl.close();
-      resolve(answer.toLowerCase().startsWith('y'));
-    });
-  });
+function validatePositiveInteger(value: string): boolean {
+  return /^\d+$/.test(value) && parseInt(value, 10) > 0;
 }
 
 /**
- * Converts an image to specified format
+ * Validates the resize options and builds the sharp resize configuration
  */
-async function convertImage(inputPath: string, outputPath: string, format: string, quality: number): Promise<void> {
-  const image = sharp(inputPath);
-  
-  let outputOptions = {};
-  if (format === 'jpg' || format === 'jpeg') {
-    outputOptions = { quality };
+function resolveResize(options: ConvertOptions): ResizeOptions | undefined {
+  const { width, height, fit, position, background, enlarge } = options;
+
+  if (width !== undefined && !validatePositiveInteger(width)) {
+    throw new Error(`Invalid width value: ${width}. Width must be a positive integer`);
   }
-  
-  // Map formats to sharp-compatible format
-  const sharpFormat = format === 'jpeg' ? 'jpg' : format;
-  
-  await image
-    .toFormat(sharpFormat as keyof import('sharp').FormatEnum, outputOptions)
-    .toFile(outputPath);
+  if (height !== undefined && !validatePositiveInteger(height)) {
+    throw new Error(`Invalid height value: ${height}. Height must be a positive integer`);
+  }
+  if (fit !== undefined && !SUPPORTED_FITS.includes(fit.toLowerCase())) {
+    throw new Error(`Unsupported fit: ${fit}. Supported fits: ${SUPPORTED_FITS.join(', ')}`);
+  }
+  if (position !== undefined && !SUPPORTED_POSITIONS.includes(position.toLowerCase())) {
+    throw new Error(`Unsupported position: ${position}. Supported positions: ${SUPPORTED_POSITIONS.join(', ')}`);
+  }
+
+  // Without a target dimension there is nothing to resize
+  if (width === undefined && height === undefined && options.widths === undefined) {
+    return undefined;
+  }
+
+  const resize: ResizeOptions = {
+    width: width !== undefined ? parseInt(width, 10) : undefined,
+    height: height !== undefined ? parseInt(height, 10) : undefined,
+    fit: (fit?.toLowerCase() ?? 'cover') as keyof FitEnum,
+    position: position?.toLowerCase(),
+    withoutEnlargement: enlarge === false,
+  };
+
+  if (background !== undefined) {
+    // Let sharp parse the colour so we accept exactly what it accepts
+    try {
+      sharp().resize({ ...resize, background });
+    } catch {
+      throw new Error(`Invalid background color: ${background}`);
+    }
+    resize.background = background;
+  }
+
+  return resize;
 }
 
 /**
- * Creates the output directory if it doesn't exist
+ * Splits a comma-separated option value into trimmed, non-empty items
  */
-async function ensureOutputDirectory(outputDir: string): Promise<void> {
-  try {
-    await fsPromises.access(outputDir);
-    // Directory exists, ask for permission to overwrite
-    const confirmed = await confirmAction(`Output directory "${outputDir}" already exists. Do you want to proceed and potentially overwrite contents?`);
-    if (!confirmed) {
-      throw new Error('Operation cancelled by user');
+function parseList(value: string): string[] {
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Validates the variant options and builds the variant settings
+ */
+function resolveVariants(options: ConvertOptions, format: string): VariantSettings | undefined {
+  const { widths: rawWidths, formats: rawFormats, variantTemplate, manifest, height } = options;
+  
+  if (rawWidths === undefined) {
+    if (rawFormats !== undefined || variantTemplate !== undefined || manifest !== undefined) {
+      throw new Error('Variant options require a list of widths');
+    }
+    return undefined;
+  }
+  if (format === SAME_FORMAT) {
+    throw new Error('Variant widths cannot be combined with format same');
+  }
+  
+  const widthValues = parseList(rawWidths);
+  if (widthValues.length === 0) {
+    throw new Error('Invalid widths value: at least one width is required');
+  }
+  for (const width of widthValues) {
+    if (!validatePositiveInteger(width)) {
+      throw new Error(`Invalid width value: ${width}. Width must be a positive integer`);
     }
-  } catch {
-    // Directory doesn't exist, create it
-    await fsPromises.mkdir(outputDir, { recursive: true });
   }
+  if (height !== undefined) {
+    throw new Error('Height cannot be combined with variant widths');
+  }
+  
+  const formats = rawFormats !== undefined ? parseList(rawFormats).map((item) => item.toLowerCase()) : [format];
+  if (formats.length === 0) {
+    throw new Error('Invalid formats value: at least one format is required');
+  }
+  for (const item of formats) {
+    if (!validateFormat(item)) {
+      throw new Error(`Unsupported format: ${item}. Supported formats: ${SUPPORTED_FORMATS.join(', ')}`);
+    }
+  }
+  
+  const widths = [...new Set(widthValues.map((width) => parseInt(width, 10)))];
+  const template = variantTemplate ?? DEFAULT_VARIANT_TEMPLATE;
+  
+  // Every variant of a source must map to its own file name
+  const tokens = getTemplateTokens(template);
+  const unknownToken = tokens.find((token) => !VARIANT_TEMPLATE_TOKENS.includes(token));
+  if (unknownToken) {
+    throw new Error(`Unknown template token: {${unknownToken}}. Supported tokens: ${VARIANT_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(', ')}`);
+  }
+  if (widths.length > 1 && !tokens.includes('width')) {
+    throw new Error('Variant template must include {width} when generating multiple widths');
+  }
+  if (new Set(formats).size > 1 && !tokens.includes('ext')) {
+    throw new Error('Variant template must include {ext} when generating multiple formats');
+  }
+  
+  return {
+    widths,
+    formats: [...new Set(formats)],
+    template,
+    manifest: manifest ?? DEFAULT_MANIFEST_NAME,
+  };
 }
 
 /**
- * Processes a single file
+ * Builds the sharp pipeline that encodes an image file or buffer in the given format
  */
-async function processFile(inputPath: string, baseInputDir: string, outputDir: string, format: string, quality: number): Promise<void> {
-  const inputFormat = await getImageFormat(inputPath);
+async function createPipeline(input: string | Buffer, format: string, settings: ConversionSettings, animated = false): Promise<Sharp> {
+  const { quality, encoder, resize, metadata, watermark } = settings;
+  const image = await prepareImage(input, settings, animated);
   
-  if (!inputFormat) {
-    console.warn(`Skipping unsupported file: ${inputPath}`);
-    return;
+  if (resize) {
+    image.resize(resize);
+  }
+  applyMetadata(image, metadata);
+  if (watermark) {
+    await applyWatermark(image, watermark);
   }
   
-  const fileName = path.basename(inputPath, path.extname(inputPath));
-  const outputFileName = `${fileName}.${format}`;
+  return applyOutputFormat(image, format, quality, encoder);
+}
+
+/**
+ * An encoded output that has not been written yet
+ */
+interface EncodedOutput {
+  data: Buffer;
+  output: Omit<OutputFile, 'path'>;
+  keptOriginal: boolean;
+}
+
+/**
+ * Encodes the single output of a source
+ *
+ * With a size budget, the quality and optionally the dimensions are searched
+ * until the output fits. Re-encoding in the same format keeps the original
+ * bytes when the result is not smaller. Resizing, auto-orienting or
+ * converting to sRGB changes the image itself, so those results are kept
+ * regardless of size. `warn` reports frames an animated source loses.
+ * `inputData` holds the content of sources that are not on the filesystem.
+ */
+async function encodeOutput(
+  inputPath: string,
+  inputFormat: string,
+  settings: ConversionSettings,
+  warn: (message: string) => void,
+  inputData?: Buffer
+): Promise<EncodedOutput> {
+  const input = inputData ?? inputPath;
+  const format = settings.format === SAME_FORMAT ? inputFormat : settings.format;
+  const frames = await countOutputFrames(input, [format], settings, warn);
+  const animated = frames > 1;
+  
+  const encode = async (quality?: number, size?: { width: number; height: number }): Promise<BudgetCandidate> => {
+    let attempt = settings;
+    if (quality !== undefined) {
+      // Encoder options take precedence over the top-level quality, so the searched quality goes there
+      attempt = { ...attempt, quality, encoder: mergeEncoderOptions(attempt.encoder, { [getEncoderKey(format)]: { quality } }) };
+    }
+    if (size) {
+      attempt = { ...attempt, resize: { ...attempt.resize, ...size, fit: attempt.resize?.fit ?? 'fill' } };
+    }
+    const { data, info } = await (await createPipeline(input, format, attempt, animated)).toBuffer({ resolveWithObject: true });
+    // Animated outputs stack their frames; sharp reports the frame height but does not type it
+    const { pageHeight } = info as typeof info & { pageHeight?: number };
+    return { data, width: info.width, height: pageHeight ?? info.height };
+  };
   
-  // Preserve directory structure relative to the base input directory
-  const relativePath = path.relative(baseInputDir, inputPath);
-  const relativeDir = path.dirname(relativePath);
+  let encoded: BudgetCandidate & { quality?: number };
+  let downscaled = false;
+  if (settings.budget) {
+    const maxQuality = formatUsesQuality(format) ? (settings.encoder[getEncoderKey(format)] as { quality?: number } | undefined)?.quality ?? settings.quality : undefined;
+    ({ downscaled, ...encoded } = await encodeWithinBudget(settings.budget, maxQuality, encode));
+  } else {
+    encoded = await encode();
+  }
+  const { data, width, height, quality } = encoded;
+  const output = { width, height, format, quality, frames: animated ? frames : undefined };
+  if (settings.format !== SAME_FORMAT) {
+    return { data, output: { ...output, size: data.length }, keptOriginal: false };
+  }
   
-  let outputFileDir = outputDir;
-  if (relativeDir !== '.') {
-    outputFileDir = path.join(outputDir, relativeDir);
-    await fsPromises.mkdir(outputFileDir, { recursive: true });
+  // Orienting the pixels for a source that looks the same either way still lets the original be kept
+  const { autoOrient, preserveLook, srgb } = settings.metadata;
+  const transformed = Boolean(settings.resize || settings.watermark || settings.transforms || settings.frame)
+    || (autoOrient && !preserveLook) || srgb || downscaled;
+  if (!transformed) {
+    const original = inputData ?? await fsPromises.readFile(inputPath);
+    if (data.length >= original.length) {
+      return { data: original, output: { ...output, size: original.length }, keptOriginal: true };
+    }
   }
+  return { data, output: { ...output, size: data.length }, keptOriginal: false };
+}
+
+/**
+ * Converts a path relative to a root into a portable key with forward slashes
+ */
+export function toPortablePath(from: string, to: string): string {
+  return path.relative(from, to).split(path.sep).join('/');
+}
+
+/**
+ * Path of the single output written for a source
+ *
+ * Without an output template, outputs mirror the source layout and only
+ * change their extension, or keep their file name in format `same`.
+ */
+function getOutputPath(
+  inputPath: string,
+  inputFormat: string,
+  baseInputDir: string,
+  outputDir: string,
+  settings: ConversionSettings,
+  encoded?: OutputNameValues['encoded']
+): string {
+  const relativeDir = path.dirname(path.relative(baseInputDir, inputPath));
+  const extension = path.extname(inputPath);
+  const name = path.basename(inputPath, extension);
+  const { template, date } = settings.naming;
   
-  const outputPath = path.join(outputFileDir, outputFileName);
-  await convertImage(inputPath, outputPath, format, quality);
+  if (template === undefined) {
+    const fileName = settings.format === SAME_FORMAT ? path.basename(inputPath) : `${name}.${getOutputExtension(settings.format)}`;
+    return path.join(outputDir, relativeDir, fileName);
+  }
   
-  console.log(`Converted: ${inputPath} -> ${outputPath}`);
+  const ext = settings.format === SAME_FORMAT ? inputFormat : getOutputExtension(settings.format);
+  const dir = relativeDir === '.' ? '' : relativeDir;
+  return path.join(outputDir, renderOutputPath(template, { dir, name, ext, srcExt: extension.slice(1), date, encoded }));
+}
+
+/**
+ * Key of a source in manifests and caches: its portable path relative to the input
+ * directory, or its file name when converting a single file
+ */
+function getSourceKey(baseInputDir: string, inputPath: string): string {
+  return toPortablePath(baseInputDir, inputPath) || path.basename(inputPath);
 }
 
 /**
- * Processes all files in a directory
+ * Processes a single file, reporting failures in the result instead of throwing
+ *
+ * The first rule matching the file's path decides whether it is skipped and
+ * which settings it is converted with. `read` loads the content of files
+ * that are not on the filesystem, such as archive entries and stdin; a
+ * source that cannot be read fails like any other. `inTurn` runs the step
+ * that claims the file's output paths in walk order, so collision suffixes do
+ * not depend on which file finishes encoding first.
  */
-async function processDirectory(currentDir: string, baseInputDir: string, outputDir: string, format: string, quality: number, recursive: boolean): Promise<void> {
-  const items = await fsPromises.readdir(currentDir);
+export async function processFile(
+  inputPath: string,
+  baseInputDir: string,
+  outputDir: string,
+  runSettings: ConversionSettings,
+  state: ConversionState,
+  read?: () => Promise<Buffer>,
+  inTurn: <T>(step: () => Promise<T>) => Promise<T> = (step) => step()
+): Promise<FileResult> {
+  const startTime = performance.now();
+  const sourceKey = getSourceKey(baseInputDir, inputPath);
+  const rule = findRule(runSettings.rules, sourceKey);
+  const result = (status: FileStatus, fields: Partial<FileResult> = {}): FileResult => ({
+    input: inputPath,
+    status,
+    outputs: [],
+    rule: rule?.label,
+    ...fields,
+    duration: performance.now() - startTime,
+  });
+  
+  let inputData: Buffer | undefined;
+  try {
+    inputData = await read?.();
+  } catch (error) {
+    return result('failed', { error: error instanceof Error ? error : new Error(String(error)) });
+  }
   
-  for (const item of items) {
-    const inputPath = path.join(currentDir, item);
-    const stat = await fsPromises.stat(inputPath);
+  const inputInfo = inputData ? detectImageFormatFromBuffer(inputData) : await detectImageFormat(inputPath);
+  if (!inputInfo) {
+    return result('unsupported');
+  }
+  const inputFormat = inputInfo.format;
+  if (rule?.skip) {
+    return result('skipped', { inputFormat, skippedBy: 'rule' });
+  }
+  const settings = rule?.settings ?? runSettings;
+  
+  try {
+    const inputSize = inputData?.length ?? (await fsPromises.stat(inputPath)).size;
     
-    if (stat.isDirectory()) {
-      if (recursive) {
-        // Recursively process the subdirectory
-        await processDirectory(inputPath, baseInputDir, outputDir, format, quality, recursive);
+    // Skip sources whose content and effective options have not changed
+    let hash: string | undefined;
+    const optionsHash = rule?.settings && state.cache ? hashSettings(rule.settings) : state.cache?.optionsHash;
+    if (state.cache && optionsHash) {
+      hash = inputData ? hashContent(inputData) : await hashFile(inputPath);
+      const entry = state.cache.entries[sourceKey];
+      if (entry && await isUpToDate(entry, hash, optionsHash, outputDir)) {
+        if (state.manifest && entry.variants) {
+          state.manifest[sourceKey] = entry.variants;
+        }
+        return result('up-to-date', { inputFormat, inputSize });
+      }
+    }
+    
+    let outputs: OutputFile[];
+    let variants: VariantEntry[] | undefined;
+    let keptOriginal: boolean | undefined;
+    
+    const warn = (message: string) => state.emit({ type: 'warning', input: inputPath, message });
+    const claim = (outputPath: string, content?: string) => inTurn(async () =>
+      claimOutput(state.claims, outputPath, { input: inputPath, content }, settings.naming.collision));
+    
+    if (settings.variants) {
+      // Preserve directory structure relative to the base input directory
+      const outputFileDir = path.join(outputDir, path.dirname(path.relative(baseInputDir, inputPath)));
+      const claimAll = (outputPaths: string[]) => inTurn(async () =>
+        outputPaths.map((outputPath) => claimOutput(state.claims, outputPath, { input: inputPath }, settings.naming.collision)));
+      outputs = await writeVariants(inputPath, outputFileDir, settings, state.sink, claimAll, warn, inputData);
+      
+      // Manifest paths are relative to the output root so they can be used as URLs
+      variants = outputs.map((output) => ({ ...output, path: toPortablePath(outputDir, output.path) }));
+      if (state.manifest) {
+        state.manifest[sourceKey] = variants;
       }
     } else {
-      const imageFormat = await getImageFormat(inputPath);
-      if (imageFormat) {
-        await processFile(inputPath, baseInputDir, outputDir, format, quality);
+      // In-place runs replace their sources by design
+      const canWrite = async (outputPath: string) => settings.inPlace || await state.sink.canWrite(outputPath);
+      
+      // Paths using the output dimensions or content hash are only known once encoded
+      const { template } = settings.naming;
+      let outputPath: string | undefined;
+      if (template === undefined || !needsEncodedOutput(template)) {
+        outputPath = await claim(getOutputPath(inputPath, inputFormat, baseInputDir, outputDir, settings));
+        if (!await canWrite(outputPath)) {
+          return result('skipped', { inputFormat, inputSize, skippedBy: 'existing-output' });
+        }
+      }
+      
+      const encoded = await encodeOutput(inputPath, inputFormat, settings, warn, inputData);
+      if (outputPath === undefined) {
+        // Sources encoding to identical content may share a hash-named output
+        const { width, height } = encoded.output;
+        const content = hashContent(encoded.data);
+        outputPath = await claim(getOutputPath(inputPath, inputFormat, baseInputDir, outputDir, settings, { width, height, hash: content }), content);
+        if (!await canWrite(outputPath)) {
+          return result('skipped', { inputFormat, inputSize, skippedBy: 'existing-output' });
+        }
       }
+      
+      // An original kept in place is already where it belongs
+      if (!(encoded.keptOriginal && path.resolve(outputPath) === path.resolve(inputPath))) {
+        await state.sink.write(outputPath, encoded.data);
+      }
+      outputs = [{ path: outputPath, ...encoded.output }];
+      keptOriginal = encoded.keptOriginal;
+    }
+    
+    if (state.cache && hash && optionsHash) {
+      const cachedOutputs = outputs.map((output) => toPortablePath(outputDir, output.path));
+      state.cache.entries[sourceKey] = { hash, options: optionsHash, outputs: cachedOutputs, variants };
     }
+    
+    return result('converted', { inputFormat, inputSize, outputs, keptOriginal });
+  } catch (error) {
+    return result('failed', { inputFormat, error: error instanceof Error ? error : new Error(String(error)) });
   }
 }
 
 /**
- * Creates a zip archive from a directory
+ * Processes the files of a directory or archive with a bounded number of parallel conversions
+ *
+ * Once max errors files have failed, files that have not started are left
+ * out and the run is marked as aborted; files already in flight finish.
+ * Archives keep the first entry written to a path, so their entries are
+ * appended in walk order.
  */
-async function createZipArchive(sourceDir: string, outputPath: string): Promise<void> {
-  const output = createWriteStream(outputPath);
-  const archive = archiver('zip', {
-    zlib: { level: 9 } // Sets the compression level
-  });
+async function processFiles(
+  source: InputSource,
+  outputDir: string,
+  settings: ConversionSettings,
+  state: ConversionState
+): Promise<{ files: FileResult[]; aborted: boolean }> {
+  let failures = 0;
+  let aborted = false;
+  // Output paths are claimed in walk order, whatever order files finish reading and encoding in
+  const claimOrder = createSequencer(source.files.length);
+  const writeOrder = settings.archive ? createSequencer(source.files.length) : undefined;
+  
+  const results = await runPool(
+    source.files,
+    settings.concurrency,
+    async (inputPath, index): Promise<FileResult | undefined> => {
+      const read = source.read && (() => source.read!(inputPath));
+      const sink: OutputSink = !writeOrder ? state.sink : {
+        canWrite: (outputPath) => state.sink.canWrite(outputPath),
+        write: async (outputPath, data) => {
+          await writeOrder.wait(index);
+          await state.sink.write(outputPath, data);
+        },
+      };
+      let result: FileResult;
+      try {
+        if (aborted) {
+          return undefined;
+        }
+        result = await processFile(inputPath, source.baseDir, outputDir, settings, { ...state, sink }, read, (step) => claimOrder.run(index, step));
+      } finally {
+        claimOrder.release(index);
+        writeOrder?.release(index);
+      }
+      if (result.status === 'failed') {
+        failures++;
+        if (!settings.continueOnError) {
+          // Report the failure right away; the pool stops and rethrows it
+          state.emit({ type: 'file', result });
+          throw result.error;
+        }
+        if (settings.maxErrors !== undefined && failures >= settings.maxErrors) {
+          aborted = true;
+        }
+      }
+      return result;
+    },
+    // Events are emitted in walk order, not completion order
+    (result) => result && state.emit({ type: 'file', result })
+  );
+  
+  return { files: results.filter((result) => result !== undefined), aborted };
+}
+
+/**
+ * Processes the input into the output directory, archive or stdout
+ */
+async function processInput(
+  source: InputSource,
+  outputDir: string,
+  settings: ConversionSettings,
+  sink: OutputSink,
+  emit: (event: ConversionEvent) => void
+): Promise<{ files: FileResult[]; manifest?: string; aborted?: boolean }> {
+  const state: ConversionState = {
+    manifest: settings.variants ? {} : undefined,
+    cache: settings.incremental ? await loadCache(outputDir, settings) : undefined,
+    claims: new Map(),
+    sink,
+    emit,
+  };
+  
+  // Outputs of up-to-date sources stay theirs, so changed sources cannot take them over
+  if (state.cache) {
+    for (const file of source.files) {
+      for (const output of state.cache.entries[getSourceKey(source.baseDir, file)]?.outputs ?? []) {
+        state.claims.set(path.join(outputDir, output), { input: file });
+      }
+    }
+  }
+  
+  let files: FileResult[];
+  let aborted: boolean | undefined;
+  if (source.kind === 'file' || source.kind === 'stdin') {
+    // Single file mode
+    const [inputPath] = source.files;
+    const data = await source.read?.(inputPath);
+    const inputInfo = data ? detectImageFormatFromBuffer(data) : await detectImageFormat(inputPath);
+    if (!inputInfo) {
+      throw new Error(`Unsupported file format: ${source.kind === 'stdin' ? 'standard input' : inputPath}`);
+    }
+    
+    const result = await processFile(inputPath, inputPath, outputDir, settings, state, data && (async () => data));
+    emit({ type: 'file', result });
+    if (result.error && !settings.continueOnError) {
+      throw result.error;
+    }
+    files = [result];
+  } else {
+    // Directory and archive mode - outputs mirror the layout below the base directory
+    ({ files, aborted } = await processFiles(source, outputDir, settings, state));
+  }
+  
+  let manifestPath: string | undefined;
+  if (settings.variants && state.manifest) {
+    manifestPath = path.join(outputDir, settings.variants.manifest);
+    await sink.write(manifestPath, Buffer.from(formatManifest(state.manifest)));
+    emit({ type: 'manifest', path: manifestPath });
+  }
+  
+  if (state.cache) {
+    await saveCache(outputDir, state.cache);
+  }
+  
+  return { files, manifest: manifestPath, aborted };
+}
 
-  return new Promise((resolve, reject) => {
-    output.on('close', () => {
-      console.log(`Zipped ${archive.pointer()} total bytes`);
-      resolve();
-    });
+/**
+ * Counts the file results of a run by status
+ */
+function countResults(files: FileResult[]): ConversionStats {
+  const count = (status: FileStatus) => files.filter((file) => file.status === status).length;
+  return {
+    converted: count('converted'),
+    upToDate: count('up-to-date'),
+    unsupported: count('unsupported'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+  };
+}
 
-    archive.on('error', (err: Error) => {
-      reject(err);
-    });
+/**
+ * Validates the directory walk options and loads the ignore file
+ */
+async function resolveWalk(options: ConvertOptions): Promise<WalkOptions> {
+  const { include, exclude, ignoreFile, maxDepth: rawMaxDepth } = options;
+  
+  let maxDepth: number | undefined;
+  if (rawMaxDepth !== undefined) {
+    if (!/^\d+$/.test(rawMaxDepth)) {
+      throw new Error(`Invalid max depth value: ${rawMaxDepth}. Max depth must be a non-negative integer`);
+    }
+    maxDepth = parseInt(rawMaxDepth, 10);
+  }
+  
+  let ignoreRules: string | undefined;
+  if (ignoreFile !== undefined) {
+    try {
+      ignoreRules = await fsPromises.readFile(ignoreFile, 'utf8');
+    } catch {
+      throw new Error(`Cannot read ignore file: ${ignoreFile}`);
+    }
+  }
+  
+  const hasFilter = Boolean(include?.length || exclude?.length || ignoreRules !== undefined);
+  return {
+    recursive: Boolean(options.recursive),
+    maxDepth,
+    filter: hasFilter ? createPathFilter({ include, exclude, ignoreRules }) : undefined,
+  };
+}
 
-    archive.pipe(output);
+/**
+ * Validates the rules and resolves the settings each of them converts with
+ *
+ * Rule options are layered over the run's options; encoder options are
+ * merged per format.
+ */
+async function resolveRules(options: ConvertOptions): Promise<ResolvedRule[] | undefined> {
+  if (options.rules === undefined || options.rules.length === 0) {
+    return undefined;
+  }
+  
+  return Promise.all(options.rules.map(async (rule, index): Promise<ResolvedRule> => {
+    const globs = typeof rule.match === 'string' ? [rule.match] : rule.match;
+    const label = rule.name ?? `rule ${index + 1} (${globs.join(', ')})`;
+    
+    if (!Array.isArray(globs) || globs.length === 0 || globs.some((glob) => typeof glob !== 'string' || glob === '')) {
+      throw new Error(`Invalid ${label}: match must be a glob or a non-empty list of globs`);
+    }
+    const unknownOption = Object.keys(rule.options ?? {}).find((name) => !RULE_OPTIONS.includes(name as keyof RuleOptions));
+    if (unknownOption) {
+      throw new Error(`Invalid ${label}: ${unknownOption} cannot be set per rule. Rule options: ${RULE_OPTIONS.join(', ')}`);
+    }
     
-    // Append all files from the source directory
-    archive.directory(sourceDir, false);
+    const matches = createGlobMatcher(globs);
+    if (rule.skip) {
+      return { label, matches, skip: true };
+    }
     
-    archive.finalize();
-  });
+    try {
+      const settings = await resolveSettings({
+        ...options,
+        ...rule.options,
+        encoder: mergeEncoderOptions(options.encoder ?? {}, rule.options?.encoder ?? {}),
+        rules: undefined,
+      });
+      return { label, matches, skip: false, settings };
+    } catch (error) {
+      throw new Error(`Invalid ${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }));
 }
 
 /**
- * Main function to convert images
+ * Validates the options and resolves the settings shared by every file
  */
-export async function convertImages(inputPath: string, options: ConvertOptions): Promise<void> {
-  const { format: rawFormat, quality: rawQuality, output: outputDir, recursive, zip } = options;
+export async function resolveSettings(options: ConvertOptions): Promise<ConversionSettings> {
+  const { format: rawFormat, quality: rawQuality } = options;
   const format = rawFormat.toLowerCase();
   
   // Validate format
-  if (!validateFormat(format)) {
-    throw new Error(`Unsupported format: ${format}. Supported formats: webp, jpg, png`);
+  if (format !== SAME_FORMAT && !validateFormat(format)) {
+    throw new Error(`Unsupported format: ${format}. Supported formats: ${SUPPORTED_FORMATS.join(', ')}, ${SAME_FORMAT}`);
   }
   
-  // Validate quality if format is JPEG
+  // Validate variant options
+  const variants = resolveVariants(options, format);
+  const outputFormats = variants ? variants.formats : [format];
+  
+  // Validate quality if any output format takes it
   let quality = 95;
-  if (format === 'jpg' || format === 'jpeg') {
+  if (format === SAME_FORMAT || outputFormats.some(formatUsesQuality)) {
     if (!validateQuality(rawQuality)) {
       throw new Error(`Invalid quality value: ${rawQuality}. Quality must be between 1 and 100`);
     }
     quality = parseInt(rawQuality, 10);
   }
   
-  // Determine if input is a file or directory
-  const inputStat = await fsPromises.stat(inputPath);
-  const isFile = inputStat.isFile();
+  // Validate encoder options
+  const encoder = options.encoder ?? {};
+  validateEncoderOptions(encoder);
   
-  if (zip) {
-    // When zip is enabled, use a temporary directory for processing
-    const tempDir = path.join(process.cwd(), '.magic-images-tmp-' + Date.now());
-    let effectiveOutputDir = outputDir || './output.zip';
-    
-    // Ensure the output file has .zip extension
-    if (!effectiveOutputDir.endsWith('.zip')) {
-      effectiveOutputDir += '.zip';
+  // Validate resize options
+  const resize = resolveResize(options);
+  
+  // Validate concurrency
+  let concurrency = getDefaultConcurrency();
+  if (options.concurrency !== undefined) {
+    if (!validatePositiveInteger(options.concurrency)) {
+      throw new Error(`Invalid concurrency value: ${options.concurrency}. Concurrency must be a positive integer`);
+    }
+    concurrency = parseInt(options.concurrency, 10);
+  }
+  
+  // Incremental mode keeps its cache next to the outputs
+  const archive = resolveArchive(options);
+  const incremental = Boolean(options.incremental);
+  if (incremental && archive) {
+    throw new Error(`Incremental mode cannot be combined with ${archive.format} archive output`);
+  }
+  
+  // Incremental runs reuse their output directory by design, so only an explicit policy applies
+  let overwrite = resolveOverwritePolicy(options);
+  if (incremental && (overwrite === 'prompt' || overwrite === 'non-interactive')) {
+    overwrite = 'overwrite';
+  }
+  
+  // A failure threshold implies continuing past individual failures
+  let maxErrors: number | undefined;
+  if (options.maxErrors !== undefined) {
+    if (!validatePositiveInteger(options.maxErrors)) {
+      throw new Error(`Invalid max errors value: ${options.maxErrors}. Max errors must be a positive integer`);
+    }
+    maxErrors = parseInt(options.maxErrors, 10);
+  }
+  const continueOnError = Boolean(options.continueOnError) || maxErrors !== undefined;
+  
+  // In-place runs write back over their sources, so there is no separate output
+  const inPlace = Boolean(options.inPlace);
+  if (inPlace) {
+    if (format !== SAME_FORMAT) {
+      throw new Error('In-place mode requires format same');
+    }
+    if (options.output !== undefined || archive) {
+      throw new Error('In-place mode cannot be combined with an output path or archive output');
+    }
+    if (incremental) {
+      throw new Error('In-place mode cannot be combined with incremental mode');
+    }
+    if (options.outputTemplate !== undefined) {
+      throw new Error('In-place mode cannot be combined with an output template');
+    }
+  }
+  
+  // Variants are named by their own template
+  const naming = resolveNaming(options);
+  if (naming.template !== undefined && variants) {
+    throw new Error('Output templates cannot be combined with variant widths. Use a variant template instead');
+  }
+  
+  // Each variant width is a size of its own, so a single budget does not apply
+  const budget = resolveBudget(options);
+  if (budget && variants) {
+    throw new Error('Max size cannot be combined with variant widths');
+  }
+  
+  const watermark = await resolveWatermark(options);
+  const transforms = options.transforms?.length ? options.transforms : undefined;
+  if (transforms) {
+    validateTransforms(transforms);
+  }
+  const frame = resolveFrame(options);
+  const walk = await resolveWalk(options);
+  const metadata = resolveMetadata(options, format === SAME_FORMAT);
+  const rules = await resolveRules(options);
+  
+  return {
+    format,
+    quality,
+    encoder,
+    resize,
+    variants,
+    concurrency,
+    incremental,
+    overwrite,
+    continueOnError,
+    maxErrors,
+    walk,
+    metadata,
+    inPlace,
+    rules,
+    naming,
+    archive,
+    budget,
+    watermark,
+    transforms,
+    frame,
+  };
+}
+
+/**
+ * Resolves where a run writes: stdout for stdin, the archive in archive mode,
+ * the source directory in place, or the output directory
+ */
+function resolveOutputPath(source: InputSource, options: ConvertOptions, settings: ConversionSettings): string {
+  if (source.kind === 'stdin') {
+    return STDIN_PATH;
+  }
+  if (settings.archive) {
+    return getArchivePath(options.output, settings.archive.format);
+  }
+  if (settings.inPlace) {
+    return source.kind === 'file' ? path.dirname(source.baseDir) : source.baseDir;
+  }
+  return options.output || './output';
+}
+
+/**
+ * Checks that the input can be converted with the settings of the run
+ *
+ * Stdin is checked before it is read, so an invalid run does not wait for it.
+ */
+function validateInput(inputPath: string, options: ConvertOptions, settings: ConversionSettings, source?: InputSource): void {
+  if (inputPath === STDIN_PATH) {
+    if (options.output !== undefined || settings.archive || settings.variants || settings.inPlace || settings.incremental) {
+      throw new Error('Standard input is converted to standard output and cannot be combined with an output path, archive output, variants, in-place or incremental mode');
+    }
+  }
+  if (source?.kind === 'archive' && settings.inPlace) {
+    throw new Error('In-place mode requires a file or directory input');
+  }
+}
+
+/**
+ * Finds output paths that more than one source would be written to
+ */
+function findCollisions(files: PlannedFile[]): OutputCollision[] {
+  const sources = new Map<string, string[]>();
+  for (const file of files) {
+    for (const output of file.outputs) {
+      sources.set(output, [...sources.get(output) ?? [], file.input]);
+    }
+  }
+  
+  return Array.from(sources, ([output, inputs]) => ({ output, inputs })).filter(({ inputs }) => inputs.length > 1);
+}
+
+/**
+ * Lists what a conversion would do with each file, without writing anything
+ *
+ * Options are validated exactly as for `convertImages`, and output paths are
+ * computed as `processFile` would. No output directory, temporary directory
+ * or archive is created. Stdin cannot be planned, as it can only be read once.
+ */
+export async function planConversion(inputPath: string, options: ConvertOptions): Promise<ConversionPlan> {
+  const settings = await resolveSettings(options);
+  if (inputPath === STDIN_PATH) {
+    throw new Error('Dry runs cannot read standard input');
+  }
+  const source = await openInput(inputPath, settings.walk);
+  try {
+    validateInput(inputPath, options, settings, source);
+    return await planFiles(source, options, settings);
+  } finally {
+    await source.close?.();
+  }
+}
+
+/**
+ * Plans the files of an opened input
+ */
+async function planFiles(source: InputSource, options: ConvertOptions, settings: ConversionSettings): Promise<ConversionPlan> {
+  const isFile = source.kind === 'file';
+  const archive = settings.archive?.format;
+  const output = resolveOutputPath(source, options, settings);
+  
+  // Paths named after encoded values are only known once encoded, so they cannot collide in the plan
+  const unresolved = new Set<PlannedFile>();
+  const planFile = async (file: string): Promise<PlannedFile> => {
+    const rule = findRule(settings.rules, getSourceKey(source.baseDir, file));
+    const data = await source.read?.(file);
+    const inputInfo = data ? detectImageFormatFromBuffer(data) : await detectImageFormat(file);
+    if (!inputInfo) {
+      return { input: file, action: 'unsupported', outputs: [] };
     }
+    if (rule?.skip) {
+      return { input: file, action: 'skip', rule: rule.label, outputs: [] };
+    }
+    
+    const fileSettings = rule?.settings ?? settings;
+    const format = fileSettings.format === SAME_FORMAT ? inputInfo.format : fileSettings.format;
+    const planned: PlannedFile = { input: file, action: 'convert', rule: rule?.label, format, outputs: [] };
     
+    // Archive entries are relative to the archive root
+    const baseInputDir = isFile ? file : source.baseDir;
+    const outputDir = archive ? '' : output;
     try {
-      // Process to temporary directory
-      await ensureOutputDirectory(tempDir);
-      
-      if (isFile) {
-        // Single file mode
-        const inputFormat = await getImageFormat(inputPath);
-        if (!inputFormat) {
-          throw new Error(`Unsupported file format: ${inputPath}`);
-        }
-        
-        await processFile(inputPath, inputPath, tempDir, format, quality);
-      } else {
-        // Directory mode - pass the base input directory for relative path calculation
-        await processDirectory(inputPath, inputPath, tempDir, format, quality, recursive);
+      const outputPaths = fileSettings.variants
+        ? (await getVariantFileNames(file, fileSettings, data)).map((name) => path.join(outputDir, path.dirname(path.relative(baseInputDir, file)), name))
+        : [getOutputPath(file, inputInfo.format, baseInputDir, outputDir, fileSettings)];
+      planned.outputs = outputPaths.map((outputPath) => (archive ? outputPath.split(path.sep).join('/') : outputPath));
+      const { template } = fileSettings.naming;
+      if (!fileSettings.variants && template !== undefined && needsEncodedOutput(template)) {
+        unresolved.add(planned);
       }
-      
-      // Create zip archive from temporary directory
-      await createZipArchive(tempDir, effectiveOutputDir);
-      
-      // Clean up temporary directory
-      await fsPromises.rm(tempDir, { recursive: true, force: true });
-      
-      console.log(`Conversion completed successfully! Output: ${effectiveOutputDir}`);
     } catch (error) {
-      // Clean up temporary directory on error
-      await fsPromises.rm(tempDir, { recursive: true, force: true });
-      throw error;
+      planned.error = error instanceof Error ? error.message : String(error);
+    }
+    return planned;
+  };
+  
+  const files = await runPool(source.files, settings.concurrency, planFile);
+  const resolved = files.filter((file) => !unresolved.has(file));
+  
+  // Suffixes are assigned in walk order, as the run claims outputs
+  if (settings.naming.collision === 'suffix') {
+    const claims = new Map<string, OutputClaim>();
+    for (const file of resolved) {
+      file.outputs = file.outputs.map((outputPath) => claimOutput(claims, outputPath, { input: file.input }, 'suffix'));
+    }
+  }
+  const collisions = findCollisions(resolved);
+  const colliding = new Set(collisions.flatMap(({ inputs }) => inputs));
+  for (const file of files) {
+    if (colliding.has(file.input)) {
+      file.collision = true;
+    }
+  }
+  
+  return { input: source.baseDir, output, archive, files, collisions, onCollision: settings.naming.collision };
+}
+
+/**
+ * Main function to convert images
+ *
+ * Progress is reported through `options.onProgress`; nothing is printed.
+ * The input is a file, a directory, a zip or tar archive, or `-` to convert
+ * stdin to stdout.
+ */
+export async function convertImages(inputPath: string, options: ConvertOptions): Promise<ConversionSummary> {
+  const settings = await resolveSettings(options);
+  validateInput(inputPath, options, settings);
+  
+  const source = await openInput(inputPath, settings.walk);
+  try {
+    validateInput(inputPath, options, settings, source);
+    return await convertSource(source, options, settings);
+  } finally {
+    await source.close?.();
+  }
+}
+
+/**
+ * Converts the files of an opened input
+ */
+async function convertSource(source: InputSource, options: ConvertOptions, settings: ConversionSettings): Promise<ConversionSummary> {
+  const { onProgress } = options;
+  const startTime = performance.now();
+  const emit = (event: ConversionEvent) => onProgress?.(event);
+  const inputPath = source.baseDir;
+  const effectiveOutput = resolveOutputPath(source, options, settings);
+  
+  const complete = (files: FileResult[], manifest?: string, aborted?: boolean): ConversionSummary => {
+    const summary: ConversionSummary = {
+      input: inputPath,
+      output: effectiveOutput,
+      files,
+      stats: countResults(files),
+      manifest,
+      aborted: aborted || undefined,
+      duration: performance.now() - startTime,
+    };
+    emit({ type: 'complete', summary });
+    return summary;
+  };
+  
+  if (source.kind === 'stdin') {
+    emit({ type: 'start', input: inputPath, output: effectiveOutput });
+    const { files } = await processInput(source, '', settings, createStreamSink(process.stdout), emit);
+    return complete(files.map((file) => ({ ...file, outputs: file.outputs.map((output) => ({ ...output, path: STDIN_PATH })) })));
+  }
+  
+  if (settings.archive) {
+    if (!await checkExistingOutput(effectiveOutput, settings.overwrite, 'Output archive')) {
+      emit({ type: 'skip-archive', path: effectiveOutput });
+      return complete([]);
     }
-  } else {
-    // Regular directory output mode
-    const effectiveOutputDir = outputDir || './output';
-    
-    // Ensure output directory exists
-    await ensureOutputDirectory(effectiveOutputDir);
     
-    if (isFile) {
-      // Single file mode
-      const inputFormat = await getImageFormat(inputPath);
-      if (!inputFormat) {
-        throw new Error(`Unsupported file format: ${inputPath}`);
-      }
+    emit({ type: 'start', input: inputPath, output: effectiveOutput });
+    await fsPromises.mkdir(path.dirname(effectiveOutput), { recursive: true });
+    const sink = createArchiveSink(effectiveOutput, settings.archive);
+    try {
+      // Outputs are streamed into the archive under paths relative to its root
+      const { files, manifest, aborted } = await processInput(source, '', settings, sink, emit);
+      const bytes = await sink.finalize();
+      emit({ type: 'archive', path: effectiveOutput, bytes });
       
-      await processFile(inputPath, inputPath, effectiveOutputDir, format, quality);
-    } else {
-      // Directory mode - pass the base input directory for relative path calculation
-      await processDirectory(inputPath, inputPath, effectiveOutputDir, format, quality, recursive);
+      const toEntryName = (outputPath: string) => outputPath.split(path.sep).join('/');
+      const archived = files.map((file) => ({
+        ...file,
+        outputs: file.outputs.map((output) => ({ ...output, path: toEntryName(output.path) })),
+      }));
+      return complete(archived, manifest && toEntryName(manifest), aborted);
+    } catch (error) {
+      await sink.abort();
+      throw error;
     }
-    
-    console.log('Conversion completed successfully!');
   }
+  
+  // Ensure output directory exists
+  if (!settings.inPlace) {
+    await ensureOutputDirectory(effectiveOutput, settings.overwrite);
+  }
+  
+  emit({ type: 'start', input: inputPath, output: effectiveOutput });
+  const sink = createDirectorySink(settings.overwrite);
+  const { files, manifest, aborted } = await processInput(source, effectiveOutput, settings, sink, emit);
+  
+  return complete(files, manifest, aborted);
 }
 
 export type { ConvertOptions };
-
-
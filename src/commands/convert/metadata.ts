@@ -0,0 +1,102 @@
+import type { Sharp } from 'sharp';
+import type { ConvertOptions, MetadataSettings } from './types.js';
+
+/**
+ * Validates the metadata options and builds the metadata settings
+ *
+ * Re-encoding in the same format must not change how an image looks, so
+ * unless metadata is stripped or kept in full, the ICC profile is kept and
+ * the EXIF orientation is applied to the pixels.
+ */
+export function resolveMetadata(options: ConvertOptions, sameFormat = false): MetadataSettings {
+  const { strip, keepMetadata, keepIcc, autoOrient, srgb, copyright, artist } = options;
+  
+  if (strip && (keepMetadata || keepIcc)) {
+    throw new Error('Strip cannot be combined with keeping metadata or ICC profiles');
+  }
+  if (copyright !== undefined && copyright.trim() === '') {
+    throw new Error('Invalid copyright value: it must not be empty');
+  }
+  if (artist !== undefined && artist.trim() === '') {
+    throw new Error('Invalid artist value: it must not be empty');
+  }
+  
+  const preserveLook = sameFormat && !strip && !keepMetadata;
+  let keep: MetadataSettings['keep'] = 'none';
+  if (keepMetadata) {
+    keep = 'all';
+  } else if (keepIcc || preserveLook) {
+    keep = 'icc';
+  }
+  
+  const fields: Record<string, string> = {};
+  if (copyright !== undefined) {
+    fields.Copyright = copyright;
+  }
+  if (artist !== undefined) {
+    fields.Artist = artist;
+  }
+  
+  return {
+    keep,
+    autoOrient: Boolean(autoOrient) || preserveLook,
+    preserveLook: preserveLook && !autoOrient,
+    srgb: Boolean(srgb),
+    exif: Object.keys(fields).length > 0 ? { IFD0: fields } : undefined,
+  };
+}
+
+/**
+ * Applies the orientation step that must run before any geometry changes
+ */
+export function applyOrientation(image: Sharp, metadata: MetadataSettings): Sharp {
+  // Without an angle, sharp rotates according to the EXIF orientation tag
+  return metadata.autoOrient ? image.rotate() : image;
+}
+
+/**
+ * Marks the pixels of a pipeline as upright, so a kept EXIF orientation does
+ * not turn them a second time
+ *
+ * sharp only exposes this through `withMetadata`, which also converts the
+ * output to sRGB and so would replace a kept ICC profile.
+ */
+export function resetOrientation(image: Sharp): Sharp {
+  (image as Sharp & { options: { withMetadataOrientation: number } }).options.withMetadataOrientation = 1;
+  return image;
+}
+
+/**
+ * Applies the metadata handling to the output of a sharp pipeline
+ *
+ * sharp strips all metadata unless told otherwise, so stripping needs no
+ * explicit step.
+ */
+export function applyMetadata(image: Sharp, metadata: MetadataSettings): Sharp {
+  const { keep, srgb, exif } = metadata;
+  
+  if (keep === 'all') {
+    image.keepMetadata();
+  } else if (keep === 'icc') {
+    image.keepIccProfile();
+  }
+  
+  if (srgb) {
+    image.toColourspace('srgb');
+    // Tag the converted pixels with sRGB instead of the source profile
+    if (keep !== 'none') {
+      image.withIccProfile('srgb');
+    }
+  }
+  
+  if (exif) {
+    // Merge into kept EXIF, otherwise write only the requested fields
+    if (keep === 'all') {
+      image.withExifMerge(exif);
+    } else {
+      image.withExif(exif);
+    }
+  }
+  
+  return image;
+}
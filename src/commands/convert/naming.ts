@@ -0,0 +1,144 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getTemplateTokens, renderTemplate } from '../../utils/template.js';
+import type { CollisionPolicy, ConvertOptions, NamingSettings, OutputClaim } from './types.js';
+
+export const OUTPUT_TEMPLATE_TOKENS = ['dir', 'name', 'ext', 'srcExt', 'width', 'height', 'hash', 'date'];
+
+/**
+ * Tokens whose values are only known once the output has been encoded
+ */
+const ENCODED_TOKENS = ['width', 'height', 'hash'];
+
+export const COLLISION_POLICIES: CollisionPolicy[] = ['error', 'suffix', 'overwrite'];
+
+/**
+ * Values available to an output template
+ */
+export interface OutputNameValues {
+  /** Source directory relative to the input directory, empty at its root */
+  dir: string;
+  name: string;
+  /** Output format */
+  ext: string;
+  /** Source file extension without the dot */
+  srcExt: string;
+  date: string;
+  /** The encoded output, for `{width}`, `{height}` and `{hash}` */
+  encoded?: { width: number; height: number; hash: string };
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ */
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Validates the output template and collision policy and builds the naming settings
+ */
+export function resolveNaming(options: ConvertOptions): NamingSettings {
+  const { outputTemplate: template, onCollision = 'overwrite' } = options;
+
+  if (!COLLISION_POLICIES.includes(onCollision as CollisionPolicy)) {
+    throw new Error(`Unsupported collision policy: ${onCollision}. Supported policies: ${COLLISION_POLICIES.join(', ')}`);
+  }
+
+  if (template !== undefined) {
+    if (template.trim() === '') {
+      throw new Error('Invalid output template: it must not be empty');
+    }
+    const unknownToken = getTemplateTokens(template).find((token) => !OUTPUT_TEMPLATE_TOKENS.includes(token));
+    if (unknownToken) {
+      throw new Error(`Unknown output template token: {${unknownToken}}. Supported tokens: ${OUTPUT_TEMPLATE_TOKENS.map((token) => `{${token}}`).join(', ')}`);
+    }
+    if (path.isAbsolute(template) || template.split(/[\\/]/).includes('..')) {
+      throw new Error(`Invalid output template: ${template}. Outputs must stay inside the output directory`);
+    }
+  }
+
+  return {
+    template,
+    collision: onCollision as CollisionPolicy,
+    date: formatDate(new Date()),
+  };
+}
+
+/**
+ * Whether an output template needs the encoded output to be rendered
+ */
+export function needsEncodedOutput(template: string): boolean {
+  return getTemplateTokens(template).some((token) => ENCODED_TOKENS.includes(token));
+}
+
+/**
+ * Computes the SHA-256 hash of an encoded output for the `{hash}` token
+ */
+export function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Renders an output template into a path relative to the output root
+ *
+ * Without the encoded output, `{width}`, `{height}` and `{hash}` are left as
+ * placeholders.
+ */
+export function renderOutputPath(template: string, values: OutputNameValues): string {
+  const { encoded, ...tokens } = values;
+  const rendered = renderTemplate(template, { ...tokens, ...encoded });
+  // An empty {dir} at the input root must not turn into an absolute path
+  return path.normalize(rendered).replace(/^[\\/]+/, '');
+}
+
+/**
+ * Whether a claim lets another claim write the same path: it is the same
+ * source, or both would write identical content
+ */
+function isSharedClaim(owner: OutputClaim, claim: OutputClaim): boolean {
+  return owner.input === claim.input || (owner.content !== undefined && owner.content === claim.content);
+}
+
+/**
+ * Reserves an output path for a source, applying the collision policy when
+ * another source of the run has already claimed it
+ *
+ * Returns the path to write, which has a `-N` suffix under the suffix policy.
+ */
+export function claimOutput(claims: Map<string, OutputClaim>, outputPath: string, claim: OutputClaim, policy: CollisionPolicy): string {
+  const owner = claims.get(outputPath);
+  if (owner === undefined || policy === 'overwrite') {
+    claims.set(outputPath, claim);
+    return outputPath;
+  }
+  if (isSharedClaim(owner, claim)) {
+    return outputPath;
+  }
+  if (policy === 'error') {
+    throw new Error(`Output "${outputPath}" is already written by ${owner.input}. Use the suffix or overwrite collision policy, or an output template that tells them apart`);
+  }
+
+  const extension = path.extname(outputPath);
+  const base = extension ? outputPath.slice(0, -extension.length) : outputPath;
+  for (let index = 1; ; index++) {
+    const candidate = `${base}-${index}${extension}`;
+    const candidateOwner = claims.get(candidate);
+    if (candidateOwner === undefined || isSharedClaim(candidateOwner, claim)) {
+      claims.set(candidate, candidateOwner ?? claim);
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Releases the output paths claimed by a source, e.g. when it is deleted
+ */
+export function releaseOutputs(claims: Map<string, OutputClaim>, input: string): void {
+  for (const [output, owner] of claims) {
+    if (owner.input === input) {
+      claims.delete(output);
+    }
+  }
+}
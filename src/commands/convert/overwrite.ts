@@ -0,0 +1,112 @@
+import * as fsPromises from 'fs/promises';
+import * as readline from 'readline';
+import type { ConvertOptions, OverwritePolicy } from './types.js';
+
+/**
+ * Resolves the overwrite policy from the CLI flags
+ *
+ * Without an explicit flag the user is prompted, unless stdin is not a TTY
+ * (CI, pipes), where prompting would block forever.
+ */
+export function resolveOverwritePolicy(options: ConvertOptions, interactive = Boolean(process.stdin.isTTY)): OverwritePolicy {
+  const flags: [boolean | undefined, OverwritePolicy][] = [
+    [options.overwrite, 'overwrite'],
+    [options.skipExisting, 'skip'],
+    [options.failIfExists, 'fail'],
+  ];
+  const selected = flags.filter(([enabled]) => enabled).map(([, policy]) => policy);
+  
+  if (selected.length > 1) {
+    throw new Error('Only one of overwrite, skipExisting and failIfExists can be set');
+  }
+  if (selected.length === 1) {
+    return selected[0];
+  }
+  return interactive ? 'prompt' : 'non-interactive';
+}
+
+/**
+ * Prompts user for confirmation
+ */
+async function confirmAction(message: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  
+  return new Promise((resolve) => {
+    rl.question(`${message} (y/N): `, (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase().startsWith('y'));
+    });
+  });
+}
+
+/**
+ * Checks whether a path exists
+ */
+export async function pathExists(targetPath: string): Promise<boolean> {
+  try {
+    await fsPromises.access(targetPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Applies the overwrite policy to an existing output directory or archive
+ *
+ * Returns false when the output should be left untouched (skip policy).
+ */
+export async function checkExistingOutput(outputPath: string, policy: OverwritePolicy, kind = 'Output directory'): Promise<boolean> {
+  if (!await pathExists(outputPath)) {
+    return true;
+  }
+  
+  switch (policy) {
+    case 'fail':
+      throw new Error(`${kind} "${outputPath}" already exists`);
+    case 'non-interactive':
+      throw new Error(`${kind} "${outputPath}" already exists. Use --overwrite, --skip-existing or --fail-if-exists when not running interactively`);
+    case 'prompt': {
+      const confirmed = await confirmAction(`${kind} "${outputPath}" already exists. Do you want to proceed and potentially overwrite contents?`);
+      if (!confirmed) {
+        throw new Error('Operation cancelled by user');
+      }
+      return true;
+    }
+    case 'skip':
+      return false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Creates the output directory, applying the overwrite policy if it already exists
+ */
+export async function ensureOutputDirectory(outputDir: string, policy: OverwritePolicy): Promise<void> {
+  await checkExistingOutput(outputDir, policy);
+  await fsPromises.mkdir(outputDir, { recursive: true });
+}
+
+/**
+ * Decides whether a single output file may be written
+ *
+ * Returns false when an existing file should be kept (skip policy) and throws
+ * when existing files are not allowed (fail policy). Prompting happens once at
+ * the directory level, so confirmed runs overwrite individual files.
+ */
+export async function shouldWriteFile(outputPath: string, policy: OverwritePolicy): Promise<boolean> {
+  if (policy !== 'skip' && policy !== 'fail') {
+    return true;
+  }
+  if (!await pathExists(outputPath)) {
+    return true;
+  }
+  if (policy === 'fail') {
+    throw new Error(`Output file "${outputPath}" already exists`);
+  }
+  return false;
+}
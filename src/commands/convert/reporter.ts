@@ -0,0 +1,162 @@
+import type { ConversionEvent, ConversionPlan, ConversionStats, FileResult } from './types.js';
+
+/**
+ * Formats the file counts of a run for the summary line
+ */
+export function formatStats(stats: ConversionStats): string {
+  return `${stats.converted} converted, ${stats.upToDate} up to date, ${stats.unsupported} unsupported, ${stats.skipped} skipped, ${stats.failed} failed`;
+}
+
+/**
+ * Formats the failed files of a run as a two-column text table
+ */
+export function formatFailureTable(files: FileResult[]): string {
+  const rows = files
+    .filter((file) => file.status === 'failed')
+    .map((file) => [file.input, file.error?.message.split('\n')[0] ?? 'Unknown error']);
+  const header = ['File', 'Error'];
+  const width = Math.max(header[0].length, ...rows.map(([input]) => input.length));
+  
+  return [header, ...rows]
+    .map(([input, message], index) => {
+      const line = `${input.padEnd(width)}  ${message}`;
+      return index === 0 ? `${line}\n${'-'.repeat(width)}  ${'-'.repeat(header[1].length)}` : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Formats a dry-run plan as a text table, one row per file, followed by any collisions
+ */
+export function formatPlan(plan: ConversionPlan): string {
+  const header = ['File', 'Action', 'Output', 'Rule'];
+  const rows = plan.files.map((file) => [
+    file.input,
+    file.collision ? `${file.action}!` : file.action,
+    file.error ? `(${file.error})` : file.outputs.join(', ') || '-',
+    file.rule ?? '-',
+  ]);
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  
+  const count = (action: string) => plan.files.filter((file) => file.action === action).length;
+  const target = plan.archive ? `${plan.archive} archive ${plan.output}` : plan.output;
+  const lines = [
+    format(header),
+    format(widths.map((width) => '-'.repeat(width))),
+    ...rows.map(format),
+    '',
+    `Dry run: ${count('convert')} to convert, ${count('skip')} skipped, ${count('unsupported')} unsupported into ${target}. Nothing was written.`,
+  ];
+  for (const collision of plan.collisions) {
+    lines.push(`Collision: ${collision.output} would be written by ${collision.inputs.join(', ')}`);
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Formats a byte size change as a percentage of the original size
+ */
+function formatChange(before: number, after: number): string {
+  const change = before > 0 ? ((after - before) / before) * 100 : 0;
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}%`;
+}
+
+/**
+ * Formats the total bytes saved by the converted files of a run
+ */
+export function formatSavings(files: FileResult[]): string {
+  const converted = files.filter((file) => file.status === 'converted' && file.inputSize !== undefined);
+  const before = converted.reduce((total, file) => total + (file.inputSize ?? 0), 0);
+  const after = converted.reduce((total, file) => total + file.outputs.reduce((sum, output) => sum + output.size, 0), 0);
+  
+  return `Saved ${before - after} of ${before} bytes (${formatChange(before, after)}) across ${converted.length} file(s)`;
+}
+
+export interface ConsoleReporterOptions {
+  /** Print byte size changes per file and in total, as `optimize` does */
+  savings?: boolean;
+}
+
+/**
+ * Creates a progress listener that prints conversion events to the console
+ */
+export function createConsoleReporter(options: ConsoleReporterOptions = {}): (event: ConversionEvent) => void {
+  let archived = false;
+  
+  return (event) => {
+    switch (event.type) {
+      case 'file': {
+        const { result } = event;
+        if (result.status === 'converted' && options.savings && result.inputSize !== undefined) {
+          for (const output of result.outputs) {
+            if (result.keptOriginal) {
+              console.log(`Kept original: ${result.input} (re-encoding was not smaller)`);
+            } else {
+              const change = formatChange(result.inputSize, output.size);
+              console.log(`Optimized: ${result.input} -> ${output.path} (${result.inputSize} -> ${output.size} bytes, ${change})`);
+            }
+          }
+        } else if (result.status === 'converted') {
+          for (const output of result.outputs) {
+            const details = [
+              output.frames !== undefined && `${output.frames} frames`,
+              output.quality !== undefined && `quality ${output.quality}, ${output.size} bytes`,
+            ].filter(Boolean);
+            console.log(`Converted: ${result.input} -> ${output.path}${details.length ? ` (${details.join(', ')})` : ''}`);
+          }
+        } else if (result.status === 'up-to-date') {
+          console.log(`Up to date: ${result.input}`);
+        } else if (result.status === 'skipped' && result.skippedBy === 'rule') {
+          console.log(`Skipped by ${result.rule}: ${result.input}`);
+        } else if (result.status === 'skipped') {
+          console.log(`Skipped existing output: ${result.input}`);
+        } else if (result.status === 'failed') {
+          console.error(`Failed: ${result.input}: ${result.error?.message}`);
+        }
+        break;
+      }
+      case 'manifest':
+        console.log(`Manifest written: ${event.path}`);
+        break;
+      case 'archive':
+        archived = true;
+        console.log(`Archived ${event.bytes} total bytes`);
+        break;
+      case 'skip-archive':
+        console.log(`Skipping existing archive: ${event.path}`);
+        break;
+      case 'watch':
+        console.log(`Watching ${event.input} for changes (press Ctrl+C to stop)`);
+        break;
+      case 'warning':
+        console.warn(`Warning: ${event.input}: ${event.message}`);
+        break;
+      case 'remove':
+        for (const output of event.outputs) {
+          console.log(`Removed: ${output} (source ${event.input} was deleted)`);
+        }
+        break;
+      case 'complete': {
+        const { summary } = event;
+        const output = archived ? ` Output: ${summary.output}` : '';
+        if (options.savings) {
+          console.log(formatSavings(summary.files));
+        }
+        if (summary.stats.failed > 0) {
+          console.error(`\n${summary.stats.failed} file(s) failed to convert:\n`);
+          console.error(formatFailureTable(summary.files));
+          if (summary.aborted) {
+            console.error(`\nConversion aborted after ${summary.stats.failed} failed files.${output} (${formatStats(summary.stats)})`);
+          } else {
+            console.log(`\nConversion completed with errors.${output} (${formatStats(summary.stats)})`);
+          }
+        } else {
+          console.log(`Conversion completed successfully!${output} (${formatStats(summary.stats)})`);
+        }
+        break;
+      }
+    }
+  };
+}
@@ -0,0 +1,19 @@
+import type { ResolvedRule, RuleOptions } from './types.js';
+
+/**
+ * Options a rule can set; everything else applies to the whole run
+ */
+export const RULE_OPTIONS: (keyof RuleOptions)[] = [
+  'format', 'quality', 'width', 'height', 'fit', 'position', 'background', 'enlarge', 'encoder',
+  'strip', 'keepMetadata', 'keepIcc', 'autoOrient', 'srgb', 'copyright', 'artist',
+  'maxSize', 'minQuality', 'downscale',
+  'watermark', 'watermarkText', 'watermarkGravity', 'watermarkOffset', 'watermarkOpacity', 'watermarkScale', 'watermarkTile',
+  'transforms', 'frame', 'firstFrame',
+];
+
+/**
+ * Finds the first rule matching a source path relative to the input directory
+ */
+export function findRule(rules: ResolvedRule[] | undefined, relativePath: string): ResolvedRule | undefined {
+  return rules?.find((rule) => rule.matches(relativePath));
+}
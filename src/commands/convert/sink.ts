@@ -0,0 +1,169 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { createWriteStream, rmSync } from 'fs';
+import type { Writable } from 'stream';
+import archiver from 'archiver';
+import { getTempPath, writeFileAtomic } from '../../utils/fs.js';
+import { shouldWriteFile } from './overwrite.js';
+import type { ArchiveFormat, ArchiveSettings, ConvertOptions, OutputSink, OverwritePolicy } from './types.js';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar', 'tgz'];
+
+/**
+ * File extensions accepted for each archive format; the first is appended when missing
+ */
+const ARCHIVE_EXTENSIONS: Record<ArchiveFormat, string[]> = {
+  zip: ['.zip'],
+  tar: ['.tar'],
+  tgz: ['.tar.gz', '.tgz'],
+};
+
+const DEFAULT_COMPRESSION_LEVEL = 9;
+
+/**
+ * Validates the archive options and builds the archive settings
+ *
+ * `zip` is shorthand for the zip archive format.
+ */
+export function resolveArchive(options: ConvertOptions): ArchiveSettings | undefined {
+  const { zip, archive, compressionLevel } = options;
+
+  if (archive !== undefined && !ARCHIVE_FORMATS.includes(archive as ArchiveFormat)) {
+    throw new Error(`Unsupported archive format: ${archive}. Supported archive formats: ${ARCHIVE_FORMATS.join(', ')}`);
+  }
+  if (zip && archive !== undefined && archive !== 'zip') {
+    throw new Error(`Zip output cannot be combined with archive format ${archive}`);
+  }
+
+  const format = (archive as ArchiveFormat | undefined) ?? (zip ? 'zip' : undefined);
+  if (format === undefined) {
+    if (compressionLevel !== undefined) {
+      throw new Error('Compression level requires a zip or tgz archive');
+    }
+    return undefined;
+  }
+
+  let level = DEFAULT_COMPRESSION_LEVEL;
+  if (compressionLevel !== undefined) {
+    if (format === 'tar') {
+      throw new Error('Compression level requires a zip or tgz archive');
+    }
+    if (!/^\d$/.test(compressionLevel)) {
+      throw new Error(`Invalid compression level: ${compressionLevel}. Compression level must be between 0 and 9`);
+    }
+    level = parseInt(compressionLevel, 10);
+  }
+
+  return { format, level };
+}
+
+/**
+ * Resolves the archive path, appending the format's extension when it is missing
+ */
+export function getArchivePath(output: string | undefined, format: ArchiveFormat): string {
+  const extensions = ARCHIVE_EXTENSIONS[format];
+  if (!output) {
+    return `./output${extensions[0]}`;
+  }
+  return extensions.some((extension) => output.endsWith(extension)) ? output : `${output}${extensions[0]}`;
+}
+
+/**
+ * Writes outputs to files in the output directory, applying the overwrite policy to existing files
+ */
+export function createDirectorySink(policy: OverwritePolicy): OutputSink {
+  return {
+    canWrite: (outputPath) => shouldWriteFile(outputPath, policy),
+    write: async (outputPath, data) => {
+      await fsPromises.mkdir(path.dirname(outputPath), { recursive: true });
+      await writeFileAtomic(outputPath, data);
+    },
+  };
+}
+
+/**
+ * Writes outputs to a stream such as stdout, ignoring their paths
+ */
+export function createStreamSink(stream: Writable): OutputSink {
+  return {
+    canWrite: async () => true,
+    write: (_outputPath, data) => new Promise((resolve, reject) => {
+      stream.write(data, (error) => (error ? reject(error) : resolve()));
+    }),
+  };
+}
+
+/**
+ * An archive being written from output buffers
+ */
+export interface ArchiveSink extends OutputSink {
+  /** Completes the archive and moves it into place, resolving with its size in bytes */
+  finalize(): Promise<number>;
+  /** Stops writing and removes the partial archive */
+  abort(): Promise<void>;
+}
+
+/**
+ * Streams outputs into an archive as they are encoded
+ *
+ * Output paths are entry names relative to the archive root. The archive is
+ * written to a temporary file next to it and only renamed into place once
+ * complete, so a failed run never leaves a partial archive behind. An
+ * archive cannot replace an entry, so only the first output written to a
+ * path is kept; outputs are written in walk order, so that is the first
+ * source in walk order.
+ */
+export function createArchiveSink(archivePath: string, settings: ArchiveSettings): ArchiveSink {
+  const { format, level } = settings;
+  const tempPath = getTempPath(archivePath);
+  const output = createWriteStream(tempPath);
+  const archive = format === 'zip'
+    ? archiver('zip', { zlib: { level } })
+    : archiver('tar', { gzip: format === 'tgz', gzipOptions: { level } });
+
+  const written = new Promise<void>((resolve, reject) => {
+    output.on('close', resolve);
+    output.on('error', reject);
+    archive.on('error', reject);
+  });
+  // Failures surface from finalize; until then they must not go unhandled
+  written.catch(() => undefined);
+  archive.pipe(output);
+
+  // A signal ends the process without a chance to abort, so the temporary
+  // archive is removed before the signal is raised again
+  const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+  const onSignal = (signal: NodeJS.Signals) => {
+    stopListening();
+    rmSync(tempPath, { force: true });
+    process.kill(process.pid, signal);
+  };
+  const stopListening = () => signals.forEach((signal) => process.off(signal, onSignal));
+  signals.forEach((signal) => process.once(signal, onSignal));
+
+  const entries = new Set<string>();
+
+  return {
+    canWrite: async () => true,
+    write: async (outputPath, data) => {
+      const name = outputPath.split(path.sep).join('/');
+      if (!entries.has(name)) {
+        entries.add(name);
+        archive.append(data, { name });
+      }
+    },
+    finalize: async () => {
+      await archive.finalize();
+      await written;
+      await fsPromises.rename(tempPath, archivePath);
+      stopListening();
+      return archive.pointer();
+    },
+    abort: async () => {
+      stopListening();
+      archive.abort();
+      output.destroy();
+      await fsPromises.rm(tempPath, { force: true });
+    },
+  };
+}
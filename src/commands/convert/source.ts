@@ -0,0 +1,164 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { createReadStream } from 'fs';
+import { createGunzip } from 'zlib';
+import { buffer } from 'stream/consumers';
+import { pipeline } from 'stream/promises';
+import yauzl from 'yauzl';
+import tar from 'tar-stream';
+import { collectFiles, filterPaths, type WalkOptions } from '../../utils/walk.js';
+import type { ArchiveFormat } from './types.js';
+
+/**
+ * Input path that reads a single image from stdin and writes the output to stdout
+ */
+export const STDIN_PATH = '-';
+
+/**
+ * Archive file extensions accepted as input
+ */
+const ARCHIVE_INPUT_EXTENSIONS: [string, ArchiveFormat][] = [
+  ['.zip', 'zip'],
+  ['.tar', 'tar'],
+  ['.tar.gz', 'tgz'],
+  ['.tgz', 'tgz'],
+];
+
+/**
+ * The images a run reads: a file, a directory, the entries of an archive or stdin
+ */
+export interface InputSource {
+  kind: 'file' | 'directory' | 'archive' | 'stdin';
+  /** Path that output paths are relative to */
+  baseDir: string;
+  /** Files in walk order; archive entries are joined to the archive path */
+  files: string[];
+  /** Reads a file that is not on the filesystem */
+  read?: (file: string) => Promise<Buffer>;
+  close?: () => Promise<void>;
+}
+
+/**
+ * Determines the archive format of an input file from its extension
+ */
+export function getArchiveInputFormat(inputPath: string): ArchiveFormat | undefined {
+  const lowerCasePath = inputPath.toLowerCase();
+  return ARCHIVE_INPUT_EXTENSIONS.find(([extension]) => lowerCasePath.endsWith(extension))?.[1];
+}
+
+/**
+ * Checks that an archive entry cannot be written outside the output directory
+ */
+function validateEntryName(archivePath: string, name: string): void {
+  if (name.startsWith('/') || path.isAbsolute(name) || name.split(/[\\/]/).includes('..')) {
+    throw new Error(`Unsafe entry path in ${archivePath}: ${name}`);
+  }
+}
+
+/**
+ * Lists the entries of a ZIP archive, reading each one only when it is converted
+ */
+async function openZipInput(archivePath: string, walk: WalkOptions): Promise<InputSource> {
+  const zipFile = await yauzl.openPromise(archivePath, { lazyEntries: true, autoClose: false });
+  const entries = new Map<string, yauzl.Entry>();
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      zipFile.on('entry', (entry: yauzl.Entry) => {
+        // Directory entries end with a slash
+        if (!entry.fileName.endsWith('/')) {
+          try {
+            validateEntryName(archivePath, entry.fileName);
+          } catch (error) {
+            reject(error);
+            return;
+          }
+          entries.set(entry.fileName, entry);
+        }
+        zipFile.readEntry();
+      });
+      zipFile.once('end', resolve);
+      zipFile.once('error', reject);
+      zipFile.readEntry();
+    });
+  } catch (error) {
+    zipFile.close();
+    throw error;
+  }
+
+  const files = new Map(filterPaths([...entries.keys()], walk).map((name) => [path.join(archivePath, name), entries.get(name)!]));
+  return {
+    kind: 'archive',
+    baseDir: archivePath,
+    files: [...files.keys()],
+    read: async (file) => buffer(await zipFile.openReadStreamPromise(files.get(file)!)),
+    close: async () => zipFile.close(),
+  };
+}
+
+/**
+ * Reads the entries of a tar archive into memory
+ *
+ * Tar archives have no index, so the matching entries are read in one pass.
+ */
+async function openTarInput(archivePath: string, gzip: boolean, walk: WalkOptions): Promise<InputSource> {
+  const contents = new Map<string, Buffer>();
+  const extract = tar.extract();
+
+  extract.on('entry', (header, stream, next) => {
+    const name = header.name.replace(/^\.\//, '');
+    if (header.type !== 'file' || filterPaths([name], walk).length === 0) {
+      stream.on('end', () => next());
+      stream.resume();
+      return;
+    }
+    try {
+      validateEntryName(archivePath, name);
+    } catch (error) {
+      // The entry stream is destroyed along with the archive
+      stream.on('error', () => undefined);
+      extract.destroy(error as Error);
+      return;
+    }
+    buffer(stream).then((data) => {
+      contents.set(path.join(archivePath, name), data);
+      next();
+    }, (error) => extract.destroy(error));
+  });
+
+  await pipeline([createReadStream(archivePath), ...(gzip ? [createGunzip()] : []), extract]);
+
+  return {
+    kind: 'archive',
+    baseDir: archivePath,
+    files: [...contents.keys()],
+    read: async (file) => contents.get(file)!,
+  };
+}
+
+/**
+ * Opens the input of a run and lists the files it converts
+ *
+ * Archive entries keep their paths inside the archive, so outputs mirror the
+ * archive's structure. Stdin is read completely before converting.
+ */
+export async function openInput(inputPath: string, walk: WalkOptions): Promise<InputSource> {
+  if (inputPath === STDIN_PATH) {
+    const data = await buffer(process.stdin);
+    return { kind: 'stdin', baseDir: STDIN_PATH, files: [STDIN_PATH], read: async () => data };
+  }
+
+  const stat = await fsPromises.stat(inputPath);
+  if (stat.isDirectory()) {
+    return { kind: 'directory', baseDir: inputPath, files: await collectFiles(inputPath, walk) };
+  }
+
+  const archiveFormat = getArchiveInputFormat(inputPath);
+  if (archiveFormat === 'zip') {
+    return openZipInput(inputPath, walk);
+  }
+  if (archiveFormat) {
+    return openTarInput(inputPath, archiveFormat === 'tgz', walk);
+  }
+  return { kind: 'file', baseDir: inputPath, files: [inputPath] };
+}
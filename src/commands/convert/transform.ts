@@ -0,0 +1,249 @@
+import sharp, { type Sharp } from 'sharp';
+import { applyOrientation, resetOrientation } from './metadata.js';
+import type { ConversionSettings, TransformStep } from './types.js';
+
+export const TRANSFORM_TYPES: TransformStep['type'][] = [
+  'crop', 'rotate', 'flip', 'flop', 'trim', 'grayscale', 'blur', 'sharpen', 'modulate', 'flatten',
+];
+
+/**
+ * Gravities and strategies for aspect-ratio crops
+ */
+const CROP_GRAVITIES = [
+  'centre', 'center', 'north', 'northeast', 'east', 'southeast',
+  'south', 'southwest', 'west', 'northwest', 'entropy', 'attention',
+];
+
+/**
+ * Parses an aspect ratio such as `16:9` or `1.5`
+ */
+function parseAspect(aspect: string): number | undefined {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(?::\s*(\d+(?:\.\d+)?)\s*)?$/.exec(aspect);
+  if (!match) {
+    return undefined;
+  }
+  const ratio = parseFloat(match[1]) / (match[2] !== undefined ? parseFloat(match[2]) : 1);
+  return ratio > 0 && isFinite(ratio) ? ratio : undefined;
+}
+
+/**
+ * Checks that a colour is one sharp accepts
+ */
+function isColor(color: unknown): boolean {
+  if (typeof color !== 'string') {
+    return false;
+  }
+  try {
+    sharp().flatten({ background: color });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const isNumber = (value: unknown, min: number, max: number): boolean =>
+  typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+
+const isInteger = (value: unknown, min: number): boolean => Number.isInteger(value) && (value as number) >= min;
+
+/**
+ * Checks a single transform step, returning a description of the problem when invalid
+ */
+function checkStep(step: TransformStep): string | null {
+  switch (step.type) {
+    case 'crop':
+      if ('aspect' in step) {
+        if (typeof step.aspect !== 'string' || parseAspect(step.aspect) === undefined) {
+          return 'aspect must be a ratio such as 16:9 or 1.5';
+        }
+        if (step.gravity !== undefined && !CROP_GRAVITIES.includes(step.gravity.toLowerCase())) {
+          return `gravity must be one of ${CROP_GRAVITIES.join(', ')}`;
+        }
+        return null;
+      }
+      if (!isInteger(step.left, 0) || !isInteger(step.top, 0) || !isInteger(step.width, 1) || !isInteger(step.height, 1)) {
+        return 'a crop box needs a non-negative left and top and a positive width and height';
+      }
+      return null;
+    case 'rotate':
+      if (!isNumber(step.angle, -360, 360)) {
+        return 'angle must be a number of degrees between -360 and 360';
+      }
+      return step.background === undefined || isColor(step.background) ? null : `invalid background color: ${step.background}`;
+    case 'flip':
+    case 'flop':
+    case 'grayscale':
+      return null;
+    case 'trim':
+      return step.threshold === undefined || isNumber(step.threshold, 0, 255) ? null : 'threshold must be a number between 0 and 255';
+    case 'blur':
+      return isNumber(step.sigma, 0.3, 1000) ? null : 'sigma must be a number between 0.3 and 1000';
+    case 'sharpen':
+      return step.sigma === undefined || isNumber(step.sigma, 0.01, 10) ? null : 'sigma must be a number between 0.01 and 10';
+    case 'modulate':
+      if (step.brightness === undefined && step.saturation === undefined && step.hue === undefined) {
+        return 'at least one of brightness, saturation or hue is required';
+      }
+      if (step.brightness !== undefined && !isNumber(step.brightness, 0.01, 100)) {
+        return 'brightness must be a positive multiplier';
+      }
+      if (step.saturation !== undefined && !isNumber(step.saturation, 0, 100)) {
+        return 'saturation must be a non-negative multiplier';
+      }
+      return step.hue === undefined || Number.isInteger(step.hue) ? null : 'hue must be a whole number of degrees';
+    case 'flatten':
+      return isColor(step.background) ? null : `invalid background color: ${step.background}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates a transform chain
+ *
+ * Errors name the step by its position, e.g. `Invalid transform 2 (blur): ...`.
+ */
+export function validateTransforms(steps: TransformStep[]): void {
+  steps.forEach((step, index) => {
+    if (!TRANSFORM_TYPES.includes(step?.type)) {
+      throw new Error(`Unsupported transform: ${step?.type}. Supported transforms: ${TRANSFORM_TYPES.join(', ')}`);
+    }
+    const problem = checkStep(step);
+    if (problem) {
+      throw new Error(`Invalid transform ${index + 1} (${step.type}): ${problem}`);
+    }
+  });
+}
+
+/**
+ * Parses transform steps from the CLI, such as `crop=16:9,attention`, `rotate=90` or `flip`
+ *
+ * Arguments follow the step name after `=` and are separated by commas:
+ *
+ * - `crop=<aspect>[,<gravity>]` or `crop=<left>,<top>,<width>,<height>`
+ * - `rotate=<angle>[,<background>]`
+ * - `trim[=<threshold>]`, `blur=<sigma>`, `sharpen[=<sigma>]`
+ * - `modulate=<brightness>[,<saturation>[,<hue>]]`
+ * - `flatten=<background>`
+ *
+ * Steps are validated like programmatic transforms when the run starts.
+ */
+export function parseTransformSteps(values: string[]): TransformStep[] {
+  return values.map((value) => {
+    const match = /^(\w+)(?:=(.*))?$/.exec(value.trim());
+    if (!match) {
+      throw new Error(`Invalid transform: ${value}. Expected <name> or <name>=<arguments>`);
+    }
+
+    const [, name, rawArgs] = match;
+    const args = rawArgs !== undefined ? rawArgs.split(',').map((arg) => arg.trim()) : [];
+    const number = (arg: string | undefined) => (arg === undefined || arg === '' ? undefined : Number(arg));
+
+    switch (name.toLowerCase()) {
+      case 'crop':
+        if (args.length === 4) {
+          const [left, top, width, height] = args.map(Number);
+          return { type: 'crop', left, top, width, height };
+        }
+        return { type: 'crop', aspect: args[0] ?? '', gravity: args[1] };
+      case 'rotate':
+        return { type: 'rotate', angle: number(args[0]) ?? NaN, background: args[1] };
+      case 'trim':
+        return { type: 'trim', threshold: number(args[0]) };
+      case 'blur':
+        return { type: 'blur', sigma: number(args[0]) ?? NaN };
+      case 'sharpen':
+        return { type: 'sharpen', sigma: number(args[0]) };
+      case 'modulate':
+        return { type: 'modulate', brightness: number(args[0]), saturation: number(args[1]), hue: number(args[2]) };
+      case 'flatten':
+        return { type: 'flatten', background: rawArgs ?? '' };
+      default:
+        return { type: name.toLowerCase() } as TransformStep;
+    }
+  });
+}
+
+/**
+ * Renders a pipeline into a lossless image so the next step starts from its result
+ *
+ * sharp applies its operations in a fixed order and only once each, so a
+ * chain like rotate, crop, rotate needs a pass per step. Metadata is kept so
+ * the run's metadata options still see the source's EXIF and ICC profile.
+ */
+async function materialize(image: Sharp): Promise<Sharp> {
+  return sharp(await image.keepMetadata().png({ compressionLevel: 0 }).toBuffer());
+}
+
+/**
+ * Applies a single step to a pipeline with no pending operations
+ */
+async function applyStep(image: Sharp, step: TransformStep): Promise<Sharp> {
+  switch (step.type) {
+    case 'crop': {
+      const { width = 0, height = 0 } = await image.metadata();
+      if (!('aspect' in step)) {
+        if (step.left + step.width > width || step.top + step.height > height) {
+          throw new Error(`Crop box ${step.width}x${step.height} at ${step.left},${step.top} does not fit the ${width}x${height} image`);
+        }
+        const { left, top, width: boxWidth, height: boxHeight } = step;
+        return image.extract({ left, top, width: boxWidth, height: boxHeight });
+      }
+      // The largest box with the aspect ratio; covering it only crops
+      const aspect = parseAspect(step.aspect)!;
+      const box = width / height > aspect
+        ? { width: Math.max(1, Math.round(height * aspect)), height }
+        : { width, height: Math.max(1, Math.round(width / aspect)) };
+      return image.resize({ ...box, fit: 'cover', position: step.gravity?.toLowerCase() ?? 'centre' });
+    }
+    case 'rotate':
+      return image.rotate(step.angle, { background: step.background });
+    case 'flip':
+      return image.flip();
+    case 'flop':
+      return image.flop();
+    case 'trim':
+      return image.trim({ threshold: step.threshold });
+    case 'grayscale':
+      return image.grayscale();
+    case 'blur':
+      return image.blur(step.sigma);
+    case 'sharpen':
+      return step.sigma !== undefined ? image.sharpen({ sigma: step.sigma }) : image.sharpen();
+    case 'modulate': {
+      // sharp rejects keys that are present but undefined
+      const { brightness, saturation, hue } = step;
+      return image.modulate(Object.fromEntries(Object.entries({ brightness, saturation, hue }).filter(([, value]) => value !== undefined)));
+    }
+    case 'flatten':
+      return image.flatten({ background: step.background });
+  }
+}
+
+/**
+ * Opens a source, applies the orientation step and runs the transform chain over it
+ *
+ * Animated sources are opened with all their frames, or else at the chosen
+ * frame. Each step runs in a pass of its own, in order, before resizing. The
+ * returned pipeline starts from the transformed image; after a rotate or
+ * flip it is marked upright, so kept metadata does not orient it again.
+ */
+export async function prepareImage(input: string | Buffer, settings: ConversionSettings, animated = false): Promise<Sharp> {
+  const { metadata, transforms, frame = 1 } = settings;
+  let image = applyOrientation(sharp(input, animated ? { animated } : { page: frame - 1 }), metadata);
+  if (!transforms) {
+    return image;
+  }
+
+  // A rotate step would replace the pending auto-orientation
+  if (metadata.autoOrient) {
+    image = await materialize(image);
+  }
+  for (const step of transforms) {
+    image = await materialize(await applyStep(image, step));
+  }
+  if (transforms.some((step) => ['rotate', 'flip', 'flop'].includes(step.type))) {
+    resetOrientation(image);
+  }
+  return image;
+}
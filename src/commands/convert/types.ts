@@ -1,9 +1,515 @@
+import type {
+  AvifOptions,
+  Exif,
+  GifOptions,
+  HeifOptions,
+  JpegOptions,
+  PngOptions,
+  ResizeOptions,
+  TiffOptions,
+  WebpOptions,
+} from 'sharp';
+import type { WalkOptions } from '../../utils/walk.js';
+
 export interface ConvertOptions {
   format: string;
   quality: string;
   output?: string;
   recursive: boolean;
+  /** Shorthand for the zip archive format */
   zip: boolean;
+  /** Write outputs into an archive of this format: zip, tar or tgz */
+  archive?: string;
+  /** Compression level (0-9) of zip and tgz archives */
+  compressionLevel?: string;
+  width?: string;
+  height?: string;
+  fit?: string;
+  position?: string;
+  background?: string;
+  enlarge?: boolean;
+  widths?: string;
+  formats?: string;
+  variantTemplate?: string;
+  manifest?: string;
+  encoder?: EncoderOptions;
+  concurrency?: string;
+  incremental?: boolean;
+  overwrite?: boolean;
+  skipExisting?: boolean;
+  failIfExists?: boolean;
+  continueOnError?: boolean;
+  maxErrors?: string;
+  include?: string[];
+  exclude?: string[];
+  ignoreFile?: string;
+  maxDepth?: string;
+  strip?: boolean;
+  keepMetadata?: boolean;
+  keepIcc?: boolean;
+  autoOrient?: boolean;
+  srgb?: boolean;
+  copyright?: string;
+  artist?: string;
+  /** Replace each input with its optimized version (requires format `same`) */
+  inPlace?: boolean;
+  /** Per-path options, first match wins */
+  rules?: ConversionRule[];
+  /** Output path template relative to the output root, e.g. `{dir}/{name}.{hash:8}.{ext}` */
+  outputTemplate?: string;
+  /** What to do when several sources map to the same output path */
+  onCollision?: string;
+  /** Largest output size in bytes, or with a unit such as `200KB` or `1.5MB` */
+  maxSize?: string;
+  /** Lowest quality tried to fit the max size */
+  minQuality?: string;
+  /** Step down the dimensions when the min quality does not fit the max size */
+  downscale?: boolean;
+  /** Image (e.g. PNG or SVG) composited over every output */
+  watermark?: string;
+  /** Text composited over every output */
+  watermarkText?: string;
+  /** Where the watermark is placed, e.g. southeast */
+  watermarkGravity?: string;
+  /** `<x>,<y>` pixels the watermark is moved away from the edges it is placed at */
+  watermarkOffset?: string;
+  /** Watermark opacity from 0 to 1 */
+  watermarkOpacity?: string;
+  /** Watermark width as a fraction of the output width */
+  watermarkScale?: string;
+  /** Repeat the watermark across the whole output */
+  watermarkTile?: boolean;
+  /** Steps applied in order before resizing */
+  transforms?: TransformStep[];
+  /** 1-based frame of an animated source to convert to a still image */
+  frame?: string;
+  /** Convert only the first frame of animated sources */
+  firstFrame?: boolean;
+  onProgress?: (event: ConversionEvent) => void;
+}
+
+/**
+ * Options a rule can set for the files it matches
+ */
+export type RuleOptions = Partial<Pick<
+  ConvertOptions,
+  | 'format' | 'quality' | 'width' | 'height' | 'fit' | 'position' | 'background' | 'enlarge' | 'encoder'
+  | 'strip' | 'keepMetadata' | 'keepIcc' | 'autoOrient' | 'srgb' | 'copyright' | 'artist'
+  | 'maxSize' | 'minQuality' | 'downscale'
+  | 'watermark' | 'watermarkText' | 'watermarkGravity' | 'watermarkOffset' | 'watermarkOpacity' | 'watermarkScale' | 'watermarkTile'
+  | 'transforms' | 'frame' | 'firstFrame'
+>>;
+
+/**
+ * Options applied to the files matching a set of globs
+ */
+export interface ConversionRule {
+  /** Shown in dry runs and skip messages instead of the globs */
+  name?: string;
+  /** Globs matched against the path relative to the input directory */
+  match: string | string[];
+  /** Leave matching files out of the run */
+  skip?: boolean;
+  /** Options layered over the run's options for matching files */
+  options?: RuleOptions;
+}
+
+/**
+ * A validated rule with the settings it resolves to
+ */
+export interface ResolvedRule {
+  label: string;
+  matches: (relativePath: string) => boolean;
+  skip: boolean;
+  settings?: ConversionSettings;
+}
+
+/**
+ * Convert options as written in a config preset
+ *
+ * Numbers and arrays are accepted where the CLI takes strings; they are
+ * normalized to `ConvertOptions` when the config is loaded.
+ */
+export interface PresetOptions extends Omit<
+  Partial<ConvertOptions>,
+  | 'quality' | 'width' | 'height' | 'widths' | 'formats' | 'concurrency' | 'maxErrors' | 'maxDepth' | 'maxSize' | 'minQuality'
+  | 'watermarkOpacity' | 'watermarkScale' | 'transforms' | 'frame' | 'rules' | 'onProgress'
+> {
+  quality?: number | string;
+  width?: number | string;
+  height?: number | string;
+  widths?: (number | string)[] | string;
+  formats?: string[] | string;
+  concurrency?: number | string;
+  maxErrors?: number | string;
+  maxDepth?: number | string;
+  maxSize?: number | string;
+  minQuality?: number | string;
+  watermarkOpacity?: number | string;
+  watermarkScale?: number | string;
+  /** Transform steps as objects or in CLI syntax, e.g. `rotate=90` */
+  transforms?: (TransformStep | string)[];
+  frame?: number | string;
+  rules?: PresetRule[];
+}
+
+/**
+ * A rule as written in a config preset
+ */
+export interface PresetRule extends Omit<ConversionRule, 'options'> {
+  options?: Pick<PresetOptions, keyof RuleOptions>;
+}
+
+/**
+ * Contents of a `magic-images.config.*` file or the `magicImages` key in package.json
+ */
+export interface MagicImagesConfig {
+  /** Named bundles of convert options, selected with `--preset` */
+  presets?: Record<string, PresetOptions>;
+}
+
+/**
+ * Per-format encoder options, validated against the options each encoder supports
+ */
+export interface EncoderOptions {
+  jpeg?: Pick<JpegOptions, 'quality' | 'progressive' | 'mozjpeg' | 'chromaSubsampling' | 'optimiseCoding'>;
+  png?: Pick<PngOptions, 'compressionLevel' | 'progressive' | 'adaptiveFiltering' | 'palette' | 'quality' | 'colors' | 'dither' | 'effort'>;
+  webp?: Pick<WebpOptions, 'quality' | 'alphaQuality' | 'lossless' | 'nearLossless' | 'smartSubsample' | 'effort'>;
+  avif?: Pick<AvifOptions, 'quality' | 'lossless' | 'effort' | 'chromaSubsampling'>;
+  heif?: Pick<HeifOptions, 'quality' | 'lossless' | 'effort' | 'chromaSubsampling'>;
+  tiff?: Pick<TiffOptions, 'quality' | 'compression' | 'predictor'>;
+  gif?: Pick<GifOptions, 'colors' | 'effort' | 'dither'>;
+}
+
+/**
+ * A single step of the transform chain
+ *
+ * Crops take either an aspect ratio such as `16:9`, cut from the gravity or
+ * from the most interesting region with `attention` or `entropy`, or a box
+ * in pixels.
+ */
+export type TransformStep =
+  | { type: 'crop'; aspect: string; gravity?: string }
+  | { type: 'crop'; left: number; top: number; width: number; height: number }
+  | { type: 'rotate'; angle: number; background?: string }
+  | { type: 'flip' }
+  | { type: 'flop' }
+  | { type: 'trim'; threshold?: number }
+  | { type: 'grayscale' }
+  | { type: 'blur'; sigma: number }
+  | { type: 'sharpen'; sigma?: number }
+  | { type: 'modulate'; brightness?: number; saturation?: number; hue?: number }
+  | { type: 'flatten'; background: string };
+
+/**
+ * Validated settings shared by every file in a conversion run
+ */
+export interface ConversionSettings {
+  /** Output format, or `same` to re-encode each input in its detected format */
+  format: string;
+  quality: number;
+  encoder: EncoderOptions;
+  resize?: ResizeOptions;
+  variants?: VariantSettings;
+  concurrency: number;
+  incremental: boolean;
+  overwrite: OverwritePolicy;
+  continueOnError: boolean;
+  maxErrors?: number;
+  walk: WalkOptions;
+  metadata: MetadataSettings;
+  inPlace: boolean;
+  /** Per-path rules in match order */
+  rules?: ResolvedRule[];
+  naming: NamingSettings;
+  archive?: ArchiveSettings;
+  budget?: SizeBudget;
+  watermark?: WatermarkSettings;
+  /** Transform chain, applied in order before resizing */
+  transforms?: TransformStep[];
+  /** 1-based frame converted from animated sources, which otherwise keep all their frames */
+  frame?: number;
+}
+
+export type WatermarkGravity = 'centre' | 'north' | 'northeast' | 'east' | 'southeast' | 'south' | 'southwest' | 'west' | 'northwest';
+
+/**
+ * Validated watermark with its overlay loaded
+ */
+export interface WatermarkSettings {
+  /** Overlay image, or SVG laid out from the watermark text */
+  overlay: Buffer;
+  /** Whether the overlay is text, whose margins are trimmed */
+  text: boolean;
+  gravity: WatermarkGravity;
+  /** Pixels the overlay is moved away from the edges it is placed at */
+  offset: { x: number; y: number };
+  opacity: number;
+  /** Overlay width as a fraction of the output width */
+  scale: number;
+  tile: boolean;
+}
+
+/**
+ * Validated output size budget
+ */
+export interface SizeBudget {
+  /** Largest output size in bytes */
+  maxSize: number;
+  minQuality: number;
+  downscale: boolean;
+}
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tgz';
+
+/**
+ * Validated archive output
+ */
+export interface ArchiveSettings {
+  format: ArchiveFormat;
+  /** Compression level of zip and tgz archives */
+  level: number;
+}
+
+/**
+ * Destination of the files written by a run: the output directory or an archive
+ */
+export interface OutputSink {
+  /** Whether an output may be written, applying the overwrite policy to existing files */
+  canWrite(outputPath: string): Promise<boolean>;
+  write(outputPath: string, data: Buffer): Promise<void>;
 }
 
+/**
+ * What happens when a source maps to an output path another source of the run already wrote
+ *
+ * `error` fails the later file, `suffix` appends `-1`, `-2`, ... to its file
+ * name and `overwrite`, the default, lets the later file replace the
+ * earlier output.
+ */
+export type CollisionPolicy = 'error' | 'suffix' | 'overwrite';
+
+/**
+ * Validated output naming for single-output conversions
+ */
+export interface NamingSettings {
+  /** Output path template; without one, outputs mirror the source layout */
+  template?: string;
+  collision: CollisionPolicy;
+  /** Date of the run for the `{date}` token, as YYYY-MM-DD */
+  date: string;
+}
+
+/**
+ * Validated metadata handling for written outputs
+ */
+export interface MetadataSettings {
+  /** Which source metadata to carry over: none, everything, or only the ICC profile */
+  keep: 'none' | 'all' | 'icc';
+  autoOrient: boolean;
+  /** Set when orientation is applied only so a same-format re-encode looks like its source */
+  preserveLook: boolean;
+  srgb: boolean;
+  exif?: Exif;
+}
+
+/**
+ * How existing output directories, archives and files are handled
+ *
+ * `non-interactive` is the default when stdin is not a TTY: existing
+ * output directories are an error instead of a blocking prompt.
+ */
+export type OverwritePolicy = 'prompt' | 'overwrite' | 'skip' | 'fail' | 'non-interactive';
+
+/**
+ * Settings for responsive variant generation
+ */
+export interface VariantSettings {
+  widths: number[];
+  formats: string[];
+  template: string;
+  manifest: string;
+}
+
+/**
+ * A written output file
+ */
+export interface OutputFile {
+  path: string;
+  width: number;
+  height: number;
+  format: string;
+  size: number;
+  /** Quality found by the size budget search */
+  quality?: number;
+  /** Number of frames of an animated output */
+  frames?: number;
+}
+
+/**
+ * A single generated variant as listed in the manifest, with its path relative to the output root
+ */
+export type VariantEntry = OutputFile;
+
+/**
+ * Variant manifest keyed by source path relative to the input
+ */
+export type VariantManifest = Record<string, VariantEntry[]>;
+
+/**
+ * A previously converted source as recorded in the incremental cache
+ */
+export interface CacheEntry {
+  hash: string;
+  options: string;
+  outputs: string[];
+  variants?: VariantEntry[];
+}
+
+/**
+ * Incremental cache for a conversion run
+ */
+export interface ConversionCache {
+  optionsHash: string;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Mutable state collected while processing the files of a run
+ */
+export interface ConversionState {
+  manifest?: VariantManifest;
+  cache?: ConversionCache;
+  /** Source that claimed each output path written so far */
+  claims: Map<string, OutputClaim>;
+  sink: OutputSink;
+  emit: (event: ConversionEvent) => void;
+}
+
+/**
+ * A source's reservation of an output path within a run
+ */
+export interface OutputClaim {
+  input: string;
+  /** Hash of the written content, for outputs named after it */
+  content?: string;
+}
+
+/**
+ * What happened to a single input file
+ */
+export type FileStatus = 'converted' | 'up-to-date' | 'unsupported' | 'skipped' | 'failed';
+
+/**
+ * Result of processing a single input file
+ *
+ * `outputs` lists the files written by this run; up-to-date and skipped
+ * files have none.
+ */
+export interface FileResult {
+  input: string;
+  status: FileStatus;
+  inputFormat?: string;
+  inputSize?: number;
+  outputs: OutputFile[];
+  /** Label of the rule the file matched */
+  rule?: string;
+  /** Why a skipped file was skipped */
+  skippedBy?: 'rule' | 'existing-output';
+  /** Whether the original was kept because re-encoding did not make it smaller */
+  keptOriginal?: boolean;
+  /** Processing time in milliseconds */
+  duration: number;
+  error?: Error;
+}
+
+/**
+ * File counts reported at the end of a run
+ */
+export interface ConversionStats {
+  converted: number;
+  upToDate: number;
+  unsupported: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Summary returned by `convertImages`
+ */
+export interface ConversionSummary {
+  input: string;
+  /** Output directory, or archive path in archive mode */
+  output: string;
+  files: FileResult[];
+  stats: ConversionStats;
+  manifest?: string;
+  /** Set when the run stopped at max errors, leaving files unprocessed */
+  aborted?: boolean;
+  /** Total run time in milliseconds */
+  duration: number;
+}
+
+/**
+ * What a conversion run would do with a single file
+ */
+export interface PlannedFile {
+  input: string;
+  action: 'convert' | 'skip' | 'unsupported';
+  /** Label of the rule the file matched */
+  rule?: string;
+  /** Output format for converted files */
+  format?: string;
+  /** Paths the file would be written to; relative to the archive root in archive mode */
+  outputs: string[];
+  /** Whether another source maps to one of the same output paths */
+  collision?: boolean;
+  /** Why the output paths could not be predicted */
+  error?: string;
+}
+
+/**
+ * Output path that several sources would be written to
+ */
+export interface OutputCollision {
+  output: string;
+  inputs: string[];
+}
+
+/**
+ * Result of a dry run: the files a conversion would process, in walk order
+ */
+export interface ConversionPlan {
+  input: string;
+  /** Output directory, or archive path in archive mode */
+  output: string;
+  archive?: ArchiveFormat;
+  files: PlannedFile[];
+  collisions: OutputCollision[];
+  /** How the run would handle the collisions */
+  onCollision: CollisionPolicy;
+}
+
+/**
+ * Handle of a running watch-mode conversion
+ */
+export interface ConversionWatcher {
+  /** Summary of the initial conversion pass */
+  initial: ConversionSummary;
+  /** Stops watching and waits for pending conversions to finish */
+  close(): Promise<void>;
+}
 
+/**
+ * Progress events emitted while converting
+ */
+export type ConversionEvent =
+  | { type: 'start'; input: string; output: string }
+  | { type: 'file'; result: FileResult }
+  | { type: 'manifest'; path: string }
+  | { type: 'archive'; path: string; bytes: number }
+  | { type: 'skip-archive'; path: string }
+  | { type: 'complete'; summary: ConversionSummary }
+  | { type: 'watch'; input: string; output: string }
+  | { type: 'remove'; input: string; outputs: string[] }
+  | { type: 'warning'; input: string; message: string };
@@ -0,0 +1,133 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { getTemplateTokens, renderTemplate } from '../../utils/template.js';
+import { applyOutputFormat, getOutputExtension } from './encode.js';
+import { applyMetadata } from './metadata.js';
+import { countOutputFrames } from './animation.js';
+import { prepareImage } from './transform.js';
+import { applyWatermark } from './watermark.js';
+import type { ConversionSettings, OutputSink, VariantEntry, VariantManifest } from './types.js';
+
+export const DEFAULT_VARIANT_TEMPLATE = '{name}-{width}w.{ext}';
+
+export const DEFAULT_MANIFEST_NAME = 'manifest.json';
+
+/**
+ * Writes every width/format variant of a single source image
+ *
+ * The source is decoded once and each variant is encoded from a clone of the
+ * same sharp instance. Animated sources keep their frames only when every
+ * variant format can hold them; `warn` reports when they do not. `claim`
+ * applies the run's collision policy to the variant paths, all at once after
+ * encoding. `inputData` holds the content of sources that are not on the
+ * filesystem.
+ */
+export async function writeVariants(
+  inputPath: string,
+  outputFileDir: string,
+  settings: ConversionSettings,
+  sink: OutputSink,
+  claim: (outputPaths: string[]) => Promise<string[]>,
+  warn: (message: string) => void,
+  inputData?: Buffer
+): Promise<VariantEntry[]> {
+  const { quality, encoder, resize, variants, metadata, watermark } = settings;
+  if (!variants) {
+    return [];
+  }
+  
+  const name = path.basename(inputPath, path.extname(inputPath));
+  const frames = await countOutputFrames(inputData ?? inputPath, variants.formats, settings, warn);
+  const source = await prepareImage(inputData ?? inputPath, settings, frames > 1);
+  
+  const encoded = await Promise.all(variants.widths.flatMap((width) =>
+    variants.formats.map(async (format) => {
+      const image = applyMetadata(source.clone().resize({ ...resize, width, height: undefined }), metadata);
+      if (watermark) {
+        await applyWatermark(image, watermark);
+      }
+      const data = await applyOutputFormat(image, format, quality, encoder).toBuffer({ resolveWithObject: true });
+      // Animated variants stack their frames; sharp reports the frame height but does not type it
+      const { pageHeight: height = data.info.height } = data.info as typeof data.info & { pageHeight?: number };
+      const fileName = renderTemplate(variants.template, {
+        name,
+        width,
+        height,
+        ext: getOutputExtension(format),
+      });
+      return { data, height, format, outputPath: path.join(outputFileDir, fileName) };
+    })
+  ));
+  const outputPaths = await claim(encoded.map((variant) => variant.outputPath));
+  
+  const jobs = encoded.map(async ({ data, height, format }, index): Promise<VariantEntry> => {
+    const outputPath = outputPaths[index];
+    
+    // An existing variant kept by the skip policy is listed with its own size
+    let size = data.info.size;
+    if (await sink.canWrite(outputPath)) {
+      await sink.write(outputPath, data.data);
+    } else {
+      size = (await fsPromises.stat(outputPath)).size;
+    }
+    
+    return {
+      path: outputPath,
+      width: data.info.width,
+      height,
+      format,
+      size,
+      frames: frames > 1 ? frames : undefined,
+    };
+  });
+  
+  return Promise.all(jobs);
+}
+
+/**
+ * Lists the file names `writeVariants` would write, without encoding anything
+ *
+ * When the template uses `{height}`, heights are predicted from the source
+ * dimensions, as variants are only ever resized by width.
+ */
+export async function getVariantFileNames(inputPath: string, settings: ConversionSettings, inputData?: Buffer): Promise<string[]> {
+  const { resize, variants, metadata } = settings;
+  if (!variants) {
+    return [];
+  }
+  
+  const name = path.basename(inputPath, path.extname(inputPath));
+  const heights = new Map<number, number>();
+  if (getTemplateTokens(variants.template).includes('height')) {
+    // Transforms change the dimensions the variants are resized from
+    const source = await (await prepareImage(inputData ?? inputPath, settings)).metadata();
+    // Orientations 5-8 are rotated by 90 degrees
+    const rotated = metadata.autoOrient && (source.orientation ?? 1) >= 5;
+    const sourceWidth = (rotated ? source.height : source.width) ?? 0;
+    const sourceHeight = (rotated ? source.width : source.height) ?? 0;
+    for (const width of variants.widths) {
+      const unscaled = resize?.withoutEnlargement && width >= sourceWidth;
+      heights.set(width, unscaled ? sourceHeight : Math.round((sourceHeight * width) / sourceWidth));
+    }
+  }
+  
+  return variants.widths.flatMap((width) =>
+    variants.formats.map((format) => renderTemplate(variants.template, { name, width, height: heights.get(width) ?? '', ext: getOutputExtension(format) }))
+  );
+}
+
+/**
+ * Formats the variant manifest as JSON, sorted by source path
+ */
+export function formatManifest(manifest: VariantManifest): string {
+  // Files finish in any order when processed in parallel
+  const sorted = Object.fromEntries(Object.entries(manifest).sort(([a], [b]) => a.localeCompare(b)));
+  return JSON.stringify(sorted, null, 2) + '\n';
+}
+
+/**
+ * Writes the variant manifest as JSON, sorted by source path
+ */
+export async function writeManifest(manifestPath: string, manifest: VariantManifest): Promise<void> {
+  await fsPromises.writeFile(manifestPath, formatManifest(manifest));
+}
@@ -0,0 +1,192 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { watch } from 'chokidar';
+import { convertImages, processFile, resolveSettings, toPortablePath } from './index.js';
+import { loadCache, saveCache } from './cache.js';
+import { writeManifest } from './variants.js';
+import { releaseOutputs } from './naming.js';
+import { createDirectorySink } from './sink.js';
+import { STDIN_PATH } from './source.js';
+import type { ConversionEvent, ConversionState, ConversionWatcher, ConvertOptions, VariantManifest } from './types.js';
+
+/**
+ * How long a file's size must stay unchanged before it is converted, so
+ * partially written files are not picked up
+ */
+const WRITE_SETTLE_MS = 200;
+
+/**
+ * Checks whether a path is inside (or is) a directory
+ */
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(target));
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Reads the variant manifest written by the initial pass
+ */
+async function loadManifest(manifestPath: string | undefined): Promise<VariantManifest> {
+  if (!manifestPath) {
+    return {};
+  }
+  try {
+    return JSON.parse(await fsPromises.readFile(manifestPath, 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Converts a directory, then keeps converting images as they are added or changed
+ *
+ * Outputs of deleted or renamed sources are removed. Changes are handled one
+ * at a time, and a failing file is reported without stopping the watcher.
+ */
+export async function watchImages(inputPath: string, options: ConvertOptions): Promise<ConversionWatcher> {
+  const emit = (event: ConversionEvent) => options.onProgress?.(event);
+  
+  if (options.zip || options.archive !== undefined) {
+    throw new Error(`Watch mode cannot be combined with ${options.archive ?? 'zip'} output`);
+  }
+  if (options.inPlace) {
+    throw new Error('Watch mode cannot be combined with in-place mode');
+  }
+  if (inputPath === STDIN_PATH || !(await fsPromises.stat(inputPath)).isDirectory()) {
+    throw new Error(`Watch mode requires a directory input: ${inputPath}`);
+  }
+  
+  const initial = await convertImages(inputPath, options);
+  const outputDir = initial.output;
+  
+  const settings = await resolveSettings(options);
+  // After the initial pass the outputs belong to this run, so changed sources replace them
+  if (settings.overwrite === 'prompt' || settings.overwrite === 'non-interactive') {
+    settings.overwrite = 'overwrite';
+  }
+  
+  const state: ConversionState = {
+    manifest: settings.variants ? await loadManifest(initial.manifest) : undefined,
+    cache: settings.incremental ? await loadCache(outputDir, settings) : undefined,
+    claims: new Map(),
+    sink: createDirectorySink(settings.overwrite),
+    emit,
+  };
+  
+  // Outputs written for each source, so they can be removed along with it
+  const outputs = new Map<string, string[]>();
+  for (const file of initial.files) {
+    outputs.set(file.input, file.outputs.map((output) => output.path));
+  }
+  const getOutputs = (inputFile: string): string[] => {
+    const tracked = outputs.get(inputFile);
+    if (tracked?.length) {
+      return tracked;
+    }
+    // Up-to-date sources wrote nothing this run; their outputs are in the cache
+    const entry = state.cache?.entries[toPortablePath(inputPath, inputFile)];
+    return entry ? entry.outputs.map((output) => path.join(outputDir, output)) : [];
+  };
+  // Changed sources must not take over the outputs of others
+  for (const file of initial.files) {
+    for (const output of getOutputs(file.input)) {
+      state.claims.set(output, { input: file.input });
+    }
+  }
+  
+  const persist = async () => {
+    if (state.manifest && initial.manifest) {
+      await writeManifest(initial.manifest, state.manifest);
+    }
+    if (state.cache) {
+      await saveCache(outputDir, state.cache);
+    }
+  };
+  
+  const convertFile = async (inputFile: string) => {
+    const previous = getOutputs(inputFile);
+    // A changed source may be renamed by a {hash} or {width} token
+    releaseOutputs(state.claims, inputFile);
+    const result = await processFile(inputFile, inputPath, outputDir, settings, state);
+    if (result.status === 'converted') {
+      // Variant names can change with the source, e.g. a {height} token
+      const current = result.outputs.map((output) => output.path);
+      await Promise.all(previous.filter((output) => !current.includes(output)).map((output) => fsPromises.rm(output, { force: true })));
+      outputs.set(inputFile, current);
+      await persist();
+    }
+    emit({ type: 'file', result });
+  };
+  
+  const removeSource = async (inputFile: string) => {
+    const removed = getOutputs(inputFile);
+    const sourceKey = toPortablePath(inputPath, inputFile);
+    await Promise.all(removed.map((output) => fsPromises.rm(output, { force: true })));
+    outputs.delete(inputFile);
+    releaseOutputs(state.claims, inputFile);
+    if (state.manifest) {
+      delete state.manifest[sourceKey];
+    }
+    if (state.cache) {
+      delete state.cache.entries[sourceKey];
+    }
+    
+    if (removed.length > 0) {
+      await persist();
+      emit({ type: 'remove', input: inputFile, outputs: removed });
+    }
+  };
+  
+  // Changes are handled in order so manifest and cache writes never interleave
+  let queue = Promise.resolve();
+  const enqueue = (inputFile: string, task: (inputFile: string) => Promise<void>) => {
+    queue = queue.then(() => task(inputFile)).catch((error) => {
+      emit({
+        type: 'file',
+        result: { input: inputFile, status: 'failed', outputs: [], duration: 0, error: error instanceof Error ? error : new Error(String(error)) },
+      });
+    });
+  };
+  
+  const { filter, recursive, maxDepth } = settings.walk;
+  const isIncluded = (inputFile: string) =>
+    !isWithin(outputDir, inputFile) && (!filter || filter.includeFile(toPortablePath(inputPath, inputFile)));
+  
+  const watcher = watch(inputPath, {
+    ignoreInitial: true,
+    depth: recursive ? maxDepth : 0,
+    awaitWriteFinish: { stabilityThreshold: WRITE_SETTLE_MS, pollInterval: 50 },
+    ignored: (file, stats) => {
+      // Outputs inside the input tree must not trigger conversions of their own
+      if (isWithin(outputDir, file)) {
+        return true;
+      }
+      const relativePath = toPortablePath(inputPath, file);
+      return Boolean(relativePath && filter && stats?.isDirectory() && !filter.includeDirectory(relativePath));
+    },
+  });
+  
+  const onChange = (file: string) => {
+    if (isIncluded(file)) {
+      enqueue(file, convertFile);
+    }
+  };
+  watcher.on('add', onChange);
+  watcher.on('change', onChange);
+  watcher.on('unlink', (file) => enqueue(file, removeSource));
+  
+  await new Promise<void>((resolve, reject) => {
+    watcher.once('ready', resolve);
+    // Only startup errors are surfaced; later ones settle nothing and are dropped
+    watcher.on('error', reject);
+  });
+  emit({ type: 'watch', input: inputPath, output: outputDir });
+  
+  return {
+    initial,
+    close: async () => {
+      await watcher.close();
+      await queue;
+    },
+  };
+}
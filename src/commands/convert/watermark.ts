@@ -0,0 +1,218 @@
+import * as fsPromises from 'fs/promises';
+import sharp, { type Sharp } from 'sharp';
+import type { ConvertOptions, WatermarkGravity, WatermarkSettings } from './types.js';
+
+export const WATERMARK_GRAVITIES: WatermarkGravity[] = [
+  'centre', 'north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest',
+];
+
+const DEFAULT_GRAVITY: WatermarkGravity = 'southeast';
+
+/**
+ * Default watermark width as a fraction of the image width
+ */
+const DEFAULT_SCALE = 0.2;
+
+/**
+ * Font size text watermarks are laid out at before scaling
+ */
+const TEXT_FONT_SIZE = 64;
+
+/**
+ * Upper bound for the density SVG overlays are rasterized at
+ */
+const MAX_DENSITY = 2400;
+
+/**
+ * Escapes text for use in SVG markup
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Lays out a text watermark as SVG: white text with a translucent dark outline
+ * so it stays readable on light and dark images
+ */
+function renderTextOverlay(text: string): Buffer {
+  // Generous bounds; the transparent margin is trimmed when rasterized
+  const width = Math.ceil(text.length * TEXT_FONT_SIZE * 0.7) + TEXT_FONT_SIZE;
+  const height = TEXT_FONT_SIZE * 2;
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<text x="${TEXT_FONT_SIZE / 2}" y="${TEXT_FONT_SIZE * 1.3}" font-family="sans-serif" font-size="${TEXT_FONT_SIZE}" ` +
+    `fill="white" stroke="black" stroke-opacity="0.5" stroke-width="2">${escapeXml(text)}</text></svg>`
+  );
+}
+
+/**
+ * Parses a decimal option value within (min, max], or [min, max] when `inclusive`
+ */
+function parseFraction(value: string, min: number, max: number, inclusive: boolean): number | undefined {
+  const number = Number(value);
+  if (value.trim() === '' || isNaN(number) || number > max || (inclusive ? number < min : number <= min)) {
+    return undefined;
+  }
+  return number;
+}
+
+/**
+ * Validates the watermark options, loads the overlay and builds the watermark settings
+ */
+export async function resolveWatermark(options: ConvertOptions): Promise<WatermarkSettings | undefined> {
+  const {
+    watermark: imagePath,
+    watermarkText: text,
+    watermarkGravity: rawGravity,
+    watermarkOffset: rawOffset,
+    watermarkOpacity: rawOpacity,
+    watermarkScale: rawScale,
+    watermarkTile: tile,
+  } = options;
+
+  if (imagePath === undefined && text === undefined) {
+    if (rawGravity !== undefined || rawOffset !== undefined || rawOpacity !== undefined || rawScale !== undefined || tile) {
+      throw new Error('Watermark options require a watermark image or text');
+    }
+    return undefined;
+  }
+  if (imagePath !== undefined && text !== undefined) {
+    throw new Error('A watermark image cannot be combined with watermark text');
+  }
+  if (text !== undefined && text.trim() === '') {
+    throw new Error('Invalid watermark text: it must not be empty');
+  }
+
+  const lowerCaseGravity = rawGravity?.toLowerCase() ?? DEFAULT_GRAVITY;
+  const gravity = (lowerCaseGravity === 'center' ? 'centre' : lowerCaseGravity) as WatermarkGravity;
+  if (!WATERMARK_GRAVITIES.includes(gravity)) {
+    throw new Error(`Unsupported watermark gravity: ${rawGravity}. Supported gravities: ${WATERMARK_GRAVITIES.join(', ')}`);
+  }
+
+  let offset = { x: 0, y: 0 };
+  if (rawOffset !== undefined) {
+    const match = /^\s*(-?\d+)\s*,\s*(-?\d+)\s*$/.exec(rawOffset);
+    if (!match) {
+      throw new Error(`Invalid watermark offset: ${rawOffset}. Offset must be <x>,<y> in pixels`);
+    }
+    offset = { x: parseInt(match[1], 10), y: parseInt(match[2], 10) };
+  }
+  if (tile && (rawGravity !== undefined || rawOffset !== undefined)) {
+    throw new Error('A tiled watermark cannot be combined with a gravity or offset');
+  }
+
+  const opacity = rawOpacity !== undefined ? parseFraction(rawOpacity, 0, 1, true) : 1;
+  if (opacity === undefined) {
+    throw new Error(`Invalid watermark opacity: ${rawOpacity}. Opacity must be between 0 and 1`);
+  }
+  const scale = rawScale !== undefined ? parseFraction(rawScale, 0, 1, false) : DEFAULT_SCALE;
+  if (scale === undefined) {
+    throw new Error(`Invalid watermark scale: ${rawScale}. Scale must be greater than 0 and at most 1`);
+  }
+
+  let overlay: Buffer;
+  if (imagePath !== undefined) {
+    try {
+      overlay = await fsPromises.readFile(imagePath);
+    } catch {
+      throw new Error(`Cannot read watermark image: ${imagePath}`);
+    }
+    try {
+      await sharp(overlay).metadata();
+    } catch {
+      throw new Error(`Unsupported watermark image: ${imagePath}`);
+    }
+  } else {
+    overlay = renderTextOverlay(text!);
+  }
+
+  return { overlay, text: text !== undefined, gravity, offset, opacity, scale, tile: Boolean(tile) };
+}
+
+/**
+ * Rasterizes the overlay at its size on an image of the given dimensions
+ */
+async function renderOverlay(watermark: WatermarkSettings, width: number, height: number): Promise<{ data: Buffer; width: number; height: number }> {
+  const { overlay, text, opacity, scale } = watermark;
+  const targetWidth = Math.max(1, Math.round(width * scale));
+
+  // Vector overlays are rasterized at the target size rather than scaled up
+  const { format, width: nativeWidth } = await sharp(overlay).metadata();
+  const density = format === 'svg' && nativeWidth ? Math.min(MAX_DENSITY, Math.max(1, (72 * targetWidth) / nativeWidth)) : undefined;
+
+  const image = sharp(overlay, { density });
+  if (text) {
+    image.trim();
+  }
+  image.resize({ width: targetWidth, height, fit: 'inside' }).ensureAlpha();
+  if (opacity < 1) {
+    // Scale the overlay's alpha channel by the opacity
+    image.composite([{
+      input: Buffer.from([255, 255, 255, Math.round(opacity * 255)]),
+      raw: { width: 1, height: 1, channels: 4 },
+      tile: true,
+      blend: 'dest-in',
+    }]);
+  }
+
+  const { data, info } = await image.png().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Places an overlay by gravity, moving it away from the edges it is anchored to by the offset
+ *
+ * The overlay is kept inside the image.
+ */
+function getOverlayPosition(
+  watermark: WatermarkSettings,
+  image: { width: number; height: number },
+  overlay: { width: number; height: number }
+): { left: number; top: number } {
+  const { gravity, offset } = watermark;
+  const place = (size: number, overlaySize: number, shift: number, start: boolean, end: boolean) => {
+    let position = Math.round((size - overlaySize) / 2) + shift;
+    if (start) {
+      position = shift;
+    } else if (end) {
+      position = size - overlaySize - shift;
+    }
+    return Math.min(Math.max(position, 0), size - overlaySize);
+  };
+
+  return {
+    left: place(image.width, overlay.width, offset.x, gravity.endsWith('west'), gravity.endsWith('east')),
+    top: place(image.height, overlay.height, offset.y, gravity.startsWith('north'), gravity.startsWith('south')),
+  };
+}
+
+/**
+ * Repeats an overlay across a transparent layer the size of a frame
+ */
+async function tileOverlay(overlay: Buffer, frame: { width: number; height: number }): Promise<Buffer> {
+  return sharp({ create: { ...frame, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite([{ input: overlay, tile: true }])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Composites the watermark over an image pipeline, after any resizing
+ *
+ * The overlay is sized relative to the pipeline's output, so the pipeline is
+ * rendered once to find its dimensions. Animated images stack their frames
+ * vertically, and each frame gets an overlay of its own.
+ */
+export async function applyWatermark(image: Sharp, watermark: WatermarkSettings): Promise<Sharp> {
+  const { info } = await image.clone().raw().toBuffer({ resolveWithObject: true });
+  // sharp reports the frame height of animated images but does not type it
+  const { pageHeight = info.height } = info as typeof info & { pageHeight?: number };
+  const frame = { width: info.width, height: pageHeight };
+  const overlay = await renderOverlay(watermark, frame.width, frame.height);
+
+  const { input, left, top } = watermark.tile
+    ? { input: await tileOverlay(overlay.data, frame), left: 0, top: 0 }
+    : { input: overlay.data, ...getOverlayPosition(watermark, frame, overlay) };
+  const frames = Math.round(info.height / frame.height);
+  return image.composite(Array.from({ length: frames }, (_, index) => ({ input, left, top: top + index * frame.height })));
+}
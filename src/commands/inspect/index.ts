@@ -0,0 +1,77 @@
+import * as fsPromises from 'fs/promises';
+import sharp from 'sharp';
+import { detectImageFormat, getIccProfileName } from '../../utils/image.js';
+import { collectFiles } from '../../utils/walk.js';
+import type { ImageReport, InspectOptions } from './types.js';
+
+/**
+ * Bits per sample for each libvips band format
+ */
+const BIT_DEPTHS: Record<string, number> = {
+  uchar: 8,
+  char: 8,
+  ushort: 16,
+  short: 16,
+  uint: 32,
+  int: 32,
+  float: 32,
+  complex: 64,
+  double: 64,
+  dpcomplex: 128,
+};
+
+/**
+ * Reads the metadata of a single image
+ *
+ * Files sharp cannot decode are still reported, with the error instead of
+ * the decoded fields.
+ */
+async function inspectFile(inputPath: string): Promise<ImageReport | null> {
+  const info = await detectImageFormat(inputPath);
+  if (!info) {
+    return null;
+  }
+  
+  const { size } = await fsPromises.stat(inputPath);
+  const report: ImageReport = { path: inputPath, format: info.format, mimeType: info.mimeType, frames: 1, size };
+  
+  try {
+    const metadata = await sharp(inputPath).metadata();
+    return {
+      ...report,
+      width: metadata.width,
+      height: metadata.height,
+      space: metadata.space,
+      channels: metadata.channels,
+      bitDepth: metadata.depth ? BIT_DEPTHS[metadata.depth] : undefined,
+      hasAlpha: metadata.hasAlpha,
+      orientation: metadata.orientation,
+      iccProfile: metadata.icc ? getIccProfileName(metadata.icc) ?? undefined : undefined,
+      frames: metadata.pages ?? 1,
+      // Only animations have a loop count and frame delays
+      loop: (metadata.pages ?? 1) > 1 ? metadata.loop : undefined,
+      delay: (metadata.pages ?? 1) > 1 ? metadata.delay : undefined,
+    };
+  } catch (error) {
+    return { ...report, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Reports the metadata of an image file or of every image in a directory
+ *
+ * Unsupported files are left out of the report.
+ */
+export async function inspectImages(inputPath: string, options: InspectOptions): Promise<ImageReport[]> {
+  const inputStat = await fsPromises.stat(inputPath);
+  const files = inputStat.isFile() ? [inputPath] : await collectFiles(inputPath, { recursive: options.recursive });
+  const reports: ImageReport[] = [];
+  for (const file of files) {
+    const report = await inspectFile(file);
+    if (report) {
+      reports.push(report);
+    }
+  }
+  
+  return reports;
+}
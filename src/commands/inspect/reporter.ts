@@ -0,0 +1,32 @@
+import type { ImageReport } from './types.js';
+
+const COLUMNS: [string, (report: ImageReport) => string][] = [
+  ['File', (report) => report.path],
+  ['Format', (report) => report.format],
+  ['Size', (report) => (report.width !== undefined ? `${report.width}x${report.height}` : '-')],
+  ['Space', (report) => report.space ?? '-'],
+  ['Channels', (report) => String(report.channels ?? '-')],
+  ['Depth', (report) => String(report.bitDepth ?? '-')],
+  ['Alpha', (report) => (report.hasAlpha === undefined ? '-' : report.hasAlpha ? 'yes' : 'no')],
+  ['Orientation', (report) => String(report.orientation ?? '-')],
+  ['ICC', (report) => report.iccProfile ?? '-'],
+  ['Frames', (report) => String(report.frames)],
+  ['Bytes', (report) => String(report.size)],
+];
+
+/**
+ * Formats image reports as a text table, one row per image
+ */
+export function formatReportTable(reports: ImageReport[]): string {
+  const header = COLUMNS.map(([title]) => title);
+  const rows = reports.map((report) => COLUMNS.map(([, cell]) => cell(report)));
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  
+  const lines = [format(header), format(widths.map((width) => '-'.repeat(width))), ...rows.map(format)];
+  for (const report of reports.filter((item) => item.error)) {
+    lines.push(`Failed to read ${report.path}: ${report.error}`);
+  }
+  
+  return lines.join('\n');
+}
@@ -0,0 +1,29 @@
+export interface InspectOptions {
+  recursive: boolean;
+  json?: boolean;
+}
+
+/**
+ * Metadata reported for a single image
+ */
+export interface ImageReport {
+  path: string;
+  format: string;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  space?: string;
+  channels?: number;
+  bitDepth?: number;
+  hasAlpha?: boolean;
+  orientation?: number;
+  iccProfile?: string;
+  frames: number;
+  /** Times an animation plays, 0 for forever */
+  loop?: number;
+  /** Delay of each animation frame in milliseconds */
+  delay?: number[];
+  /** File size in bytes */
+  size: number;
+  error?: string;
+}
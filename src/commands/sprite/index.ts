@@ -0,0 +1,197 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import sharp from 'sharp';
+import { detectImageFormat } from '../../utils/image.js';
+import { getDefaultConcurrency, runPool } from '../../utils/pool.js';
+import { collectFiles, createPathFilter } from '../../utils/walk.js';
+import { applyOutputFormat, getOutputExtension, SUPPORTED_FORMATS } from '../convert/encode.js';
+import { toPortablePath } from '../convert/index.js';
+import { formatSpriteCss, formatSpriteJson, getSpriteClassName } from './map.js';
+import { packGrid, packShelves } from './pack.js';
+import type { SpriteEntry, SpriteLayout, SpriteMapFormat, SpriteOptions, SpriteSettings, SpriteSheet } from './types.js';
+
+const SPRITE_LAYOUTS: SpriteLayout[] = ['grid', 'packed'];
+
+const SPRITE_MAP_FORMATS: SpriteMapFormat[] = ['json', 'css'];
+
+const DEFAULT_PREFIX = 'sprite';
+
+/**
+ * Validates the sprite options and builds the sprite settings
+ */
+function resolveSpriteSettings(options: SpriteOptions): SpriteSettings {
+  const format = options.format.toLowerCase();
+  if (!SUPPORTED_FORMATS.includes(format)) {
+    throw new Error(`Unsupported format: ${options.format}. Supported formats: ${SUPPORTED_FORMATS.join(', ')}`);
+  }
+
+  const quality = parseInt(options.quality, 10);
+  if (isNaN(quality) || quality < 1 || quality > 100) {
+    throw new Error(`Invalid quality value: ${options.quality}. Quality must be between 1 and 100`);
+  }
+
+  const layout = (options.layout?.toLowerCase() ?? 'grid') as SpriteLayout;
+  if (!SPRITE_LAYOUTS.includes(layout)) {
+    throw new Error(`Unsupported layout: ${options.layout}. Supported layouts: ${SPRITE_LAYOUTS.join(', ')}`);
+  }
+
+  let padding = 0;
+  if (options.padding !== undefined) {
+    if (!/^\d+$/.test(options.padding)) {
+      throw new Error(`Invalid padding value: ${options.padding}. Padding must be a non-negative integer`);
+    }
+    padding = parseInt(options.padding, 10);
+  }
+
+  let maxWidth: number | undefined;
+  if (options.maxWidth !== undefined) {
+    if (!/^\d+$/.test(options.maxWidth) || parseInt(options.maxWidth, 10) === 0) {
+      throw new Error(`Invalid max width value: ${options.maxWidth}. Max width must be a positive integer`);
+    }
+    maxWidth = parseInt(options.maxWidth, 10);
+  }
+
+  const scale = options.scale !== undefined ? Number(options.scale) : 1;
+  if (options.scale?.trim() === '' || !(scale > 0) || !isFinite(scale)) {
+    throw new Error(`Invalid scale value: ${options.scale}. Scale must be a positive number such as 2`);
+  }
+
+  if (options.background !== undefined) {
+    // Let sharp parse the colour so we accept exactly what it accepts
+    try {
+      sharp().flatten({ background: options.background });
+    } catch {
+      throw new Error(`Invalid background color: ${options.background}`);
+    }
+  }
+
+  const maps = (options.map ?? SPRITE_MAP_FORMATS.join(',')).split(',').map((item) => item.trim().toLowerCase()).filter(Boolean);
+  for (const map of maps) {
+    if (!SPRITE_MAP_FORMATS.includes(map as SpriteMapFormat)) {
+      throw new Error(`Unsupported map format: ${map}. Supported map formats: ${SPRITE_MAP_FORMATS.join(', ')}`);
+    }
+  }
+
+  const prefix = options.prefix ?? DEFAULT_PREFIX;
+  if (!/^[a-zA-Z_][\w-]*$/.test(prefix)) {
+    throw new Error(`Invalid class prefix: ${prefix}. Use letters, digits, hyphens and underscores, starting with a letter or underscore`);
+  }
+
+  return {
+    output: options.output ?? `sprite.${getOutputExtension(format)}`,
+    format,
+    quality,
+    layout,
+    padding,
+    maxWidth,
+    scale,
+    background: options.background,
+    maps: [...new Set(maps)] as SpriteMapFormat[],
+    prefix,
+  };
+}
+
+/**
+ * Decodes a source into raw RGBA pixels, upright according to its EXIF orientation
+ */
+async function loadSprite(file: string): Promise<{ data: Buffer; width: number; height: number }> {
+  try {
+    const { data, info } = await sharp(file).rotate().ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  } catch (error) {
+    throw new Error(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Packs the images of a directory into a single sprite sheet
+ *
+ * Images are placed in path order, either in a grid of equal cells or packed
+ * onto shelves, and the sheet is written with a JSON and/or CSS map of where
+ * each image is. Animated sources contribute their first frame. Files that
+ * are not images are left out.
+ */
+export async function spriteImages(inputDir: string, options: SpriteOptions): Promise<SpriteSheet> {
+  const settings = resolveSpriteSettings(options);
+
+  const inputStat = await fsPromises.stat(inputDir);
+  if (!inputStat.isDirectory()) {
+    throw new Error(`Sprite input must be a directory: ${inputDir}`);
+  }
+
+  const { include, exclude } = options;
+  const walk = {
+    recursive: Boolean(options.recursive),
+    filter: include?.length || exclude?.length ? createPathFilter({ include, exclude }) : undefined,
+  };
+  // Sort so the layout does not depend on the order the filesystem lists files in,
+  // and leave out a sheet written by an earlier run
+  const files = (await collectFiles(inputDir, walk))
+    .filter((file) => path.resolve(file) !== path.resolve(settings.output))
+    .map((file) => ({ file, name: toPortablePath(inputDir, file) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const images: typeof files = [];
+  for (const item of files) {
+    if (await detectImageFormat(item.file)) {
+      images.push(item);
+    }
+  }
+  if (images.length === 0) {
+    throw new Error(`No images found in ${inputDir}`);
+  }
+
+  // Every sprite needs a class name of its own
+  if (settings.maps.includes('css')) {
+    const classNames = new Map<string, string>();
+    for (const { name } of images) {
+      const className = getSpriteClassName(settings.prefix, name);
+      const other = classNames.get(className);
+      if (other !== undefined) {
+        throw new Error(`Sprites ${other} and ${name} have the same class name: ${className}`);
+      }
+      classNames.set(className, name);
+    }
+  }
+
+  const sources = await runPool(images, getDefaultConcurrency(), ({ file }) => loadSprite(file));
+  if (settings.maxWidth !== undefined) {
+    const index = sources.findIndex((source) => source.width > settings.maxWidth!);
+    if (index !== -1) {
+      throw new Error(`${images[index].name} is ${sources[index].width} pixels wide, more than the max width of ${settings.maxWidth}`);
+    }
+  }
+
+  const pack = settings.layout === 'grid' ? packGrid : packShelves;
+  const { width, height, positions } = pack(sources, settings.padding, settings.maxWidth);
+  const sprites: SpriteEntry[] = images.map(({ file, name }, index) => ({
+    name,
+    path: file,
+    ...positions[index],
+    width: sources[index].width,
+    height: sources[index].height,
+  }));
+
+  const sheet = sharp({
+    create: { width, height, channels: 4, background: settings.background ?? { r: 0, g: 0, b: 0, alpha: 0 } },
+  }).composite(sources.map((source, index) => ({
+    input: source.data,
+    raw: { width: source.width, height: source.height, channels: 4 },
+    left: positions[index].x,
+    top: positions[index].y,
+  })));
+  const data = await applyOutputFormat(sheet, settings.format, settings.quality).toBuffer();
+
+  await fsPromises.mkdir(path.dirname(settings.output), { recursive: true });
+  await fsPromises.writeFile(settings.output, data);
+
+  const result: SpriteSheet = { path: settings.output, format: settings.format, width, height, scale: settings.scale, sprites, maps: [] };
+  const mapBase = settings.output.slice(0, settings.output.length - path.extname(settings.output).length);
+  for (const map of settings.maps) {
+    const mapPath = `${mapBase}.${map}`;
+    await fsPromises.writeFile(mapPath, map === 'json' ? formatSpriteJson(result) : formatSpriteCss(result, settings.prefix));
+    result.maps.push(mapPath);
+  }
+
+  return result;
+}
@@ -0,0 +1,56 @@
+import * as path from 'path';
+import type { SpriteSheet } from './types.js';
+
+/**
+ * Formats a length in sheet pixels as CSS pixels at the sheet's scale
+ */
+function toCssPixels(value: number, scale: number): string {
+  return value === 0 ? '0' : `${Number((value / scale).toFixed(2))}px`;
+}
+
+/**
+ * Class name of a sprite: the prefix followed by its path without the extension,
+ * e.g. `sprite-icons-home` for `icons/home.png`
+ */
+export function getSpriteClassName(prefix: string, name: string): string {
+  const base = name.slice(0, name.length - path.extname(name).length);
+  return `${prefix}-${base.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '')}`;
+}
+
+/**
+ * Formats the JSON coordinate map, in sheet pixels and keyed by source path
+ */
+export function formatSpriteJson(sheet: SpriteSheet): string {
+  const sprites = Object.fromEntries(sheet.sprites.map(({ name, x, y, width, height }) => [name, { x, y, width, height }]));
+  return JSON.stringify({
+    image: path.basename(sheet.path),
+    width: sheet.width,
+    height: sheet.height,
+    scale: sheet.scale,
+    sprites,
+  }, null, 2) + '\n';
+}
+
+/**
+ * Formats the CSS coordinate map: a base class with the sheet and a class per sprite
+ *
+ * Lengths are in CSS pixels, so a sheet of @2x images is drawn at half size.
+ */
+export function formatSpriteCss(sheet: SpriteSheet, prefix: string): string {
+  const { scale } = sheet;
+  const rules = [
+    `.${prefix} {\n` +
+    `  background-image: url("${path.basename(sheet.path)}");\n` +
+    '  background-repeat: no-repeat;\n' +
+    `  background-size: ${toCssPixels(sheet.width, scale)} ${toCssPixels(sheet.height, scale)};\n` +
+    '}',
+    ...sheet.sprites.map((sprite) =>
+      `.${getSpriteClassName(prefix, sprite.name)} {\n` +
+      `  background-position: ${toCssPixels(-sprite.x, scale)} ${toCssPixels(-sprite.y, scale)};\n` +
+      `  width: ${toCssPixels(sprite.width, scale)};\n` +
+      `  height: ${toCssPixels(sprite.height, scale)};\n` +
+      '}'
+    ),
+  ];
+  return rules.join('\n\n') + '\n';
+}
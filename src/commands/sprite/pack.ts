@@ -0,0 +1,70 @@
+/**
+ * Dimensions of an image to place on a sheet
+ */
+export interface PackSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Positions of the images, in input order, and the dimensions of the sheet holding them
+ */
+export interface PackResult {
+  width: number;
+  height: number;
+  positions: { x: number; y: number }[];
+}
+
+/**
+ * Places images in equal cells, left to right and top to bottom
+ *
+ * Cells fit the largest image and each image is centred in its cell. Without
+ * a max width the grid is roughly square.
+ */
+export function packGrid(sizes: PackSize[], padding: number, maxWidth?: number): PackResult {
+  const cellWidth = Math.max(...sizes.map((size) => size.width));
+  const cellHeight = Math.max(...sizes.map((size) => size.height));
+  const maxColumns = maxWidth !== undefined ? Math.floor((maxWidth + padding) / (cellWidth + padding)) : Math.ceil(Math.sqrt(sizes.length));
+  const columns = Math.max(1, Math.min(maxColumns, sizes.length));
+  const rows = Math.ceil(sizes.length / columns);
+
+  return {
+    width: columns * cellWidth + (columns - 1) * padding,
+    height: rows * cellHeight + (rows - 1) * padding,
+    positions: sizes.map((size, index) => ({
+      x: (index % columns) * (cellWidth + padding) + Math.floor((cellWidth - size.width) / 2),
+      y: Math.floor(index / columns) * (cellHeight + padding) + Math.floor((cellHeight - size.height) / 2),
+    })),
+  };
+}
+
+/**
+ * Packs images onto shelves, tallest first, starting a new shelf when a row is full
+ *
+ * Without a max width the sheet is about as wide as it is tall.
+ */
+export function packShelves(sizes: PackSize[], padding: number, maxWidth?: number): PackResult {
+  const area = sizes.reduce((total, size) => total + (size.width + padding) * (size.height + padding), 0);
+  const limit = maxWidth ?? Math.max(...sizes.map((size) => size.width), Math.ceil(Math.sqrt(area)));
+  const order = sizes.map((_, index) => index).sort((a, b) => sizes[b].height - sizes[a].height || sizes[b].width - sizes[a].width);
+
+  const positions: PackResult['positions'] = new Array(sizes.length);
+  let x = 0;
+  let y = 0;
+  let shelfHeight = 0;
+  let width = 0;
+  for (const index of order) {
+    const size = sizes[index];
+    if (x > 0 && x + size.width > limit) {
+      y += shelfHeight + padding;
+      x = 0;
+      shelfHeight = 0;
+    }
+    positions[index] = { x, y };
+    width = Math.max(width, x + size.width);
+    shelfHeight = Math.max(shelfHeight, size.height);
+    x += size.width + padding;
+  }
+
+  return { width, height: y + shelfHeight, positions };
+}
@@ -0,0 +1,71 @@
+export interface SpriteOptions {
+  /** Path of the sheet; coordinate maps are written next to it */
+  output?: string;
+  format: string;
+  quality: string;
+  recursive: boolean;
+  include?: string[];
+  exclude?: string[];
+  /** How images are arranged: grid or packed */
+  layout?: string;
+  /** Pixels between neighbouring images */
+  padding?: string;
+  /** Largest sheet width in pixels */
+  maxWidth?: string;
+  /** Pixel density of the sources, e.g. 2 for @2x images */
+  scale?: string;
+  /** Sheet background; transparent by default */
+  background?: string;
+  /** Comma-separated coordinate maps to write: json, css */
+  map?: string;
+  /** Class name prefix of the CSS map */
+  prefix?: string;
+}
+
+export type SpriteLayout = 'grid' | 'packed';
+
+export type SpriteMapFormat = 'json' | 'css';
+
+/**
+ * Validated settings of a sprite run
+ */
+export interface SpriteSettings {
+  output: string;
+  format: string;
+  quality: number;
+  layout: SpriteLayout;
+  padding: number;
+  maxWidth?: number;
+  scale: number;
+  background?: string;
+  maps: SpriteMapFormat[];
+  prefix: string;
+}
+
+/**
+ * An image placed on the sheet, in sheet pixels
+ */
+export interface SpriteEntry {
+  /** Portable path of the source relative to the input directory */
+  name: string;
+  path: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A written sprite sheet
+ */
+export interface SpriteSheet {
+  path: string;
+  format: string;
+  width: number;
+  height: number;
+  /** Pixel density of the sheet; the CSS map divides coordinates by it */
+  scale: number;
+  sprites: SpriteEntry[];
+  /** Paths of the written coordinate maps */
+  maps: string[];
+}
@@ -1,9 +1,27 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { getImageFormat } from './utils/image.js';
-import { convertImages, type ConvertOptions } from './commands/convert/index.js';
+import { getImageFormat, detectImageFormatFromBuffer } from './utils/image.js';
+import { convertImages, planConversion, toPortablePath, type ConvertOptions } from './commands/convert/index.js';
+import { watchImages } from './commands/convert/watch.js';
+import { applyPreset, loadConfig, resolvePreset, validateConfig } from './commands/convert/config.js';
+import { parseEncoderSettings } from './commands/convert/encode.js';
+import { parseTransformSteps } from './commands/convert/transform.js';
+import { runPool } from './utils/pool.js';
+import { collectFiles, createPathFilter } from './utils/walk.js';
+import { formatFailureTable, formatPlan, formatSavings } from './commands/convert/reporter.js';
+import type { ConversionEvent } from './commands/convert/types.js';
+import { inspectImages } from './commands/inspect/index.js';
+import { formatReportTable } from './commands/inspect/reporter.js';
+import { spriteImages } from './commands/sprite/index.js';
+import type { SpriteOptions } from './commands/sprite/types.js';
 import fs from 'fs/promises';
 import path from 'path';
 import { tmpdir } from 'os';
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { gunzipSync } from 'zlib';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import tar from 'tar-stream';
 
 // Create minimal valid image buffers that Sharp can process
 // For testing purposes, we'll create minimal but valid images
@@ -84,6 +102,82 @@ const createWebPBuffer = () => {
 
 const createTextBuffer = () => Buffer.from('This is a text file', 'utf8');
 
+// Create a real image that Sharp can decode, for tests that need a successful conversion
+const createSolidImage = (width: number, height: number, format: 'png' | 'jpeg' | 'webp' = 'png') => {
+  return sharp({
+    create: { width, height, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+  })
+    .toFormat(format)
+    .toBuffer();
+};
+
+// Create an animated GIF whose frames are filled with the given colors in turn
+const createAnimatedGif = (width: number, height: number, colors: number[][], delays: number[]) => {
+  const bytes = [...Buffer.from('GIF89a'), width & 255, width >> 8, height & 255, height >> 8, 0xf1, 0, 0];
+  for (let index = 0; index < 4; index++) {
+    bytes.push(...(colors[index] ?? [0, 0, 0]));
+  }
+  // Loop forever
+  bytes.push(0x21, 0xff, 11, ...Buffer.from('NETSCAPE2.0'), 3, 1, 0, 0, 0);
+  delays.forEach((delay, frame) => {
+    bytes.push(0x21, 0xf9, 4, 0, (delay / 10) & 255, (delay / 10) >> 8, 0, 0);
+    bytes.push(0x2c, 0, 0, 0, 0, width & 255, width >> 8, height & 255, height >> 8, 0);
+    // A clear code before every pixel keeps the LZW codes at 3 bits
+    const codes = [...Array.from({ length: width * height }, () => [4, frame]).flat(), 5];
+    const data: number[] = [];
+    codes.forEach((code, index) => {
+      for (let bit = 0; bit < 3; bit++) {
+        const position = index * 3 + bit;
+        data[position >> 3] = (data[position >> 3] ?? 0) | (((code >> bit) & 1) << (position & 7));
+      }
+    });
+    bytes.push(2);
+    for (let start = 0; start < data.length; start += 255) {
+      const block = data.slice(start, start + 255);
+      bytes.push(block.length, ...block);
+    }
+    bytes.push(0);
+  });
+  bytes.push(0x3b);
+  return Buffer.from(bytes);
+};
+
+// List entry names from a zip archive's central directory
+const listZipEntries = (archive: Buffer) => {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4B, 0x05, 0x06]));
+  const names: string[] = [];
+  let offset = archive.readUInt32LE(end + 16);
+  for (let index = 0; index < archive.readUInt16LE(end + 10); index++) {
+    const nameLength = archive.readUInt16LE(offset + 28);
+    names.push(archive.toString('utf8', offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + archive.readUInt16LE(offset + 30) + archive.readUInt16LE(offset + 32);
+  }
+  return names.sort();
+};
+
+// List entry names from a tar archive's 512-byte headers
+const listTarEntries = (archive: Buffer) => {
+  const names: string[] = [];
+  for (let offset = 0; offset + 512 <= archive.length && archive[offset] !== 0; ) {
+    names.push(archive.toString('utf8', offset, offset + 100).replace(/\0.*$/s, ''));
+    const size = parseInt(archive.toString('latin1', offset + 124, offset + 136).replace(/\0.*$/s, '').trim(), 8);
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return names.sort();
+};
+
+// Read the content of a tar archive entry
+const readTarEntry = (archive: Buffer, name: string) => {
+  for (let offset = 0; offset + 512 <= archive.length && archive[offset] !== 0; ) {
+    const size = parseInt(archive.toString('latin1', offset + 124, offset + 136).replace(/\0.*$/s, '').trim(), 8);
+    if (archive.toString('utf8', offset, offset + 100).replace(/\0.*$/s, '') === name) {
+      return archive.subarray(offset + 512, offset + 512 + size);
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  throw new Error(`No tar entry named ${name}`);
+};
+
 describe('getImageFormat', () => {
   it('should detect JPEG format correctly', async () => {
     const testFile = path.join(tmpdir(), `test-${Date.now()}.jpg`);
@@ -121,6 +215,43 @@ describe('getImageFormat', () => {
     }
   });
 
+  it('should detect GIF, TIFF, AVIF and HEIF formats', async () => {
+    const headers: Record<string, Buffer> = {
+      gif: Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1'),
+      tiff: Buffer.from([0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08]),
+      avif: Buffer.from('\x00\x00\x00\x1cftypavif\x00\x00\x00\x00avifmif1miaf', 'latin1'),
+      heif: Buffer.from('\x00\x00\x00\x18ftypheic\x00\x00\x00\x00mif1heic', 'latin1'),
+    };
+
+    for (const [expected, header] of Object.entries(headers)) {
+      const testFile = path.join(tmpdir(), `test-${Date.now()}.${expected}`);
+      await fs.writeFile(testFile, header);
+
+      try {
+        expect(await getImageFormat(testFile)).toBe(expected);
+      } finally {
+        await fs.unlink(testFile);
+      }
+    }
+  });
+
+  it('should report MIME type and container details', async () => {
+    expect(detectImageFormatFromBuffer(Buffer.from([0x49, 0x49, 0x2A, 0x00]))).toEqual({
+      format: 'tiff',
+      mimeType: 'image/tiff',
+      container: 'tiff',
+      byteOrder: 'little-endian',
+    });
+    expect(detectImageFormatFromBuffer(Buffer.from('\x00\x00\x00\x18ftypheic\x00\x00\x00\x00mif1heic', 'latin1'))).toMatchObject({
+      format: 'heif',
+      mimeType: 'image/heic',
+      container: 'isobmff',
+      brand: 'heic',
+      compatibleBrands: ['mif1', 'heic'],
+    });
+    expect(detectImageFormatFromBuffer(Buffer.from('\x00\x00\x00\x10ftypisom\x00\x00\x00\x00', 'latin1'))).toBeNull();
+  });
+
   it('should return null for unsupported format', async () => {
     const testFile = path.join(tmpdir(), `test-${Date.now()}.txt`);
     await fs.writeFile(testFile, createTextBuffer());
@@ -403,3 +534,2068 @@ describe('Output directory handling', () => {
     await expect(convertImages(testDir, options)).rejects.toThrow();
   });
 });
+
+describe('Resize options', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'photo.png'), await createSolidImage(200, 100));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const baseOptions = (): ConvertOptions => ({
+    format: 'webp',
+    quality: '90',
+    output: outputDir,
+    recursive: false,
+    zip: false,
+  });
+
+  it('should resize to the requested width keeping aspect ratio', async () => {
+    await convertImages(path.join(testDir, 'photo.png'), { ...baseOptions(), width: '50' });
+
+    const metadata = await sharp(path.join(outputDir, 'photo.webp')).metadata();
+    expect(metadata.width).toBe(50);
+    expect(metadata.height).toBe(25);
+  });
+
+  it('should apply the fit mode when both dimensions are given', async () => {
+    await convertImages(testDir, { ...baseOptions(), width: '40', height: '40', fit: 'inside' });
+
+    const metadata = await sharp(path.join(outputDir, 'photo.webp')).metadata();
+    expect(metadata.width).toBe(40);
+    expect(metadata.height).toBe(20);
+  });
+
+  it('should not enlarge smaller images when enlarge is false', async () => {
+    await convertImages(testDir, { ...baseOptions(), width: '400', enlarge: false });
+
+    const metadata = await sharp(path.join(outputDir, 'photo.webp')).metadata();
+    expect(metadata.width).toBe(200);
+  });
+
+  it('should reject invalid dimensions', async () => {
+    await expect(convertImages(testDir, { ...baseOptions(), width: '0' })).rejects.toThrow('Invalid width value');
+    await expect(convertImages(testDir, { ...baseOptions(), height: 'abc' })).rejects.toThrow('Invalid height value');
+  });
+
+  it('should reject unsupported fit, position and background values', async () => {
+    await expect(convertImages(testDir, { ...baseOptions(), width: '10', fit: 'stretch' })).rejects.toThrow('Unsupported fit');
+    await expect(convertImages(testDir, { ...baseOptions(), width: '10', position: 'middle' })).rejects.toThrow('Unsupported position');
+    await expect(convertImages(testDir, { ...baseOptions(), width: '10', background: 'not-a-color' })).rejects.toThrow('Invalid background color');
+  });
+});
+
+describe('Responsive variants', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'subdir'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'hero.png'), await createSolidImage(400, 200));
+    await fs.writeFile(path.join(testDir, 'subdir', 'logo.png'), await createSolidImage(100, 100));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const baseOptions = (): ConvertOptions => ({
+    format: 'webp',
+    quality: '90',
+    output: outputDir,
+    recursive: true,
+    zip: false,
+  });
+
+  it('should write every width and format and list them in the manifest', async () => {
+    await convertImages(testDir, { ...baseOptions(), widths: '100,200', formats: 'webp,jpg' });
+
+    const manifest = JSON.parse(await fs.readFile(path.join(outputDir, 'manifest.json'), 'utf8'));
+    expect(Object.keys(manifest).sort()).toEqual(['hero.png', 'subdir/logo.png']);
+    expect(manifest['hero.png']).toHaveLength(4);
+
+    const variant = manifest['hero.png'].find((entry: { path: string }) => entry.path === 'hero-100w.jpg');
+    expect(variant).toMatchObject({ width: 100, height: 50, format: 'jpg' });
+    const stat = await fs.stat(path.join(outputDir, 'hero-100w.jpg'));
+    expect(variant.size).toBe(stat.size);
+
+    expect(manifest['subdir/logo.png'].map((entry: { path: string }) => entry.path)).toContain('subdir/logo-200w.webp');
+  });
+
+  it('should use a custom template and manifest name', async () => {
+    await convertImages(path.join(testDir, 'hero.png'), {
+      ...baseOptions(),
+      widths: '50',
+      variantTemplate: '{name}_{width}x{height}.{ext}',
+      manifest: 'images.json',
+    });
+
+    await expect(fs.access(path.join(outputDir, 'hero_50x25.webp'))).resolves.toBeUndefined();
+    const manifest = JSON.parse(await fs.readFile(path.join(outputDir, 'images.json'), 'utf8'));
+    expect(manifest['hero.png'][0].path).toBe('hero_50x25.webp');
+  });
+
+  it('should reject templates that would collide', async () => {
+    await expect(
+      convertImages(testDir, { ...baseOptions(), widths: '100,200', variantTemplate: '{name}.{ext}' })
+    ).rejects.toThrow('must include {width}');
+    await expect(
+      convertImages(testDir, { ...baseOptions(), widths: '100', formats: 'webp,png', variantTemplate: '{name}-{width}' })
+    ).rejects.toThrow('must include {ext}');
+  });
+
+  it('should validate widths and formats', async () => {
+    await expect(convertImages(testDir, { ...baseOptions(), widths: '100,abc' })).rejects.toThrow('Invalid width value');
+    await expect(convertImages(testDir, { ...baseOptions(), widths: '100', formats: 'webp,bmp' })).rejects.toThrow('Unsupported format');
+    await expect(convertImages(testDir, { ...baseOptions(), formats: 'webp' })).rejects.toThrow('require a list of widths');
+  });
+});
+
+describe('Additional output formats', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'photo.png'), await createSolidImage(16, 16));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it.each(['avif', 'tiff', 'gif'])('should convert to %s and detect the result', async (format) => {
+    await convertImages(path.join(testDir, 'photo.png'), {
+      format,
+      quality: '90',
+      output: outputDir,
+      recursive: false,
+      zip: false,
+    });
+
+    expect(await getImageFormat(path.join(outputDir, `photo.${format}`))).toBe(format);
+  });
+
+  it('should name HEIF outputs after their AVIF content', async () => {
+    const summary = await convertImages(path.join(testDir, 'photo.png'), { format: 'heif', quality: '90', output: outputDir, recursive: false, zip: false });
+
+    expect(summary.files[0].outputs[0].path).toBe(path.join(outputDir, 'photo.avif'));
+    expect(await getImageFormat(path.join(outputDir, 'photo.avif'))).toBe('avif');
+  });
+});
+
+describe('Encoder options', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'photo.png'), await createSolidImage(64, 64));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const convert = (options: Partial<ConvertOptions>) =>
+    convertImages(path.join(testDir, 'photo.png'), {
+      format: 'webp',
+      quality: '90',
+      output: outputDir,
+      recursive: false,
+      zip: false,
+      ...options,
+    });
+
+  it('should parse CLI encoder settings into per-format options', () => {
+    expect(parseEncoderSettings(['webp.effort=6', 'webp.lossless', 'jpg.chromaSubsampling=4:4:4', 'png.palette=false'])).toEqual({
+      webp: { effort: 6, lossless: true },
+      jpeg: { chromaSubsampling: '4:4:4' },
+      png: { palette: false },
+    });
+    expect(() => parseEncoderSettings(['effort=6'])).toThrow('Invalid encoder setting');
+  });
+
+  it('should apply encoder options to the output', async () => {
+    await convert({ format: 'jpg', encoder: { jpeg: { progressive: true } } });
+    const jpeg = await sharp(path.join(outputDir, 'photo.jpg')).metadata();
+    expect(jpeg.isProgressive).toBe(true);
+  });
+
+  it('should quantize PNG output to a palette', async () => {
+    await convert({ format: 'png', encoder: { png: { palette: true, colors: 4 } } });
+    const png = await fs.readFile(path.join(outputDir, 'photo.png'));
+    expect(png[25]).toBe(3); // IHDR colour type 3 = indexed
+  });
+
+  it('should apply quality to WebP output', async () => {
+    await fs.writeFile(path.join(testDir, 'photo.png'), await sharp({
+      create: { width: 64, height: 64, channels: 3, background: '#808080', noise: { type: 'gaussian', mean: 128, sigma: 60 } },
+    }).png().toBuffer());
+
+    await convert({ quality: '10' });
+    const low = (await fs.stat(path.join(outputDir, 'photo.webp'))).size;
+    await convert({ quality: '100', output: outputDir + '-high' });
+    const high = (await fs.stat(path.join(outputDir + '-high', 'photo.webp'))).size;
+    await fs.rm(outputDir + '-high', { recursive: true, force: true });
+
+    expect(high).toBeGreaterThan(low);
+  });
+
+  it('should validate encoder options per format', async () => {
+    await expect(convert({ encoder: { webp: { effort: 9 } } })).rejects.toThrow('Invalid webp.effort value: 9');
+    await expect(convert({ encoder: { jpeg: { chromaSubsampling: '4:1:1' } } })).rejects.toThrow('Invalid jpeg.chromaSubsampling value');
+    await expect(convert({ encoder: { webp: { speed: 1 } as never } })).rejects.toThrow('Unsupported webp encoder option: speed');
+    await expect(convert({ encoder: { bmp: {} } as never })).rejects.toThrow('Unsupported encoder format: bmp');
+  });
+});
+
+describe('Concurrent processing', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'nested'), { recursive: true });
+    for (let i = 0; i < 6; i++) {
+      await fs.writeFile(path.join(testDir, `image${i}.png`), await createSolidImage(32 * (6 - i), 32));
+    }
+    await fs.writeFile(path.join(testDir, 'nested', 'deep.png'), await createSolidImage(16, 16));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should limit in-flight work and report results in item order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const order: number[] = [];
+
+    const results = await runPool(
+      [30, 5, 20, 1, 10],
+      2,
+      async (delay) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        inFlight--;
+        return delay;
+      },
+      (_result, index) => order.push(index)
+    );
+
+    expect(maxInFlight).toBe(2);
+    expect(results).toEqual([30, 5, 20, 1, 10]);
+    expect(order).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should stop scheduling after a failure and rethrow it', async () => {
+    const started: number[] = [];
+    await expect(
+      runPool([1, 2, 3, 4], 1, async (item) => {
+        started.push(item);
+        if (item === 2) {
+          throw new Error('boom');
+        }
+      })
+    ).rejects.toThrow('boom');
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('should convert a directory in parallel with deterministic event order', async () => {
+    const events: ConversionEvent[] = [];
+
+    await convertImages(testDir, {
+      format: 'webp',
+      quality: '90',
+      output: outputDir,
+      recursive: true,
+      zip: false,
+      concurrency: '4',
+      onProgress: (event) => events.push(event),
+    });
+
+    const inputs = events.flatMap((event) => (event.type === 'file' ? [event.result.input] : []));
+    const expected = (await fs.readdir(testDir))
+      .flatMap((item) => (item === 'nested' ? [path.join('nested', 'deep.png')] : [item]))
+      .map((item) => path.join(testDir, item));
+    expect(inputs).toEqual(expected);
+    await expect(fs.access(path.join(outputDir, 'nested', 'deep.webp'))).resolves.toBeUndefined();
+  });
+
+  it('should validate concurrency', async () => {
+    await expect(
+      convertImages(testDir, { format: 'webp', quality: '90', output: outputDir, recursive: false, zip: false, concurrency: '0' })
+    ).rejects.toThrow('Invalid concurrency value');
+  });
+});
+
+describe('Incremental mode', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'a.png'), await createSolidImage(16, 16));
+    await fs.writeFile(path.join(testDir, 'b.png'), await createSolidImage(24, 24));
+    await fs.writeFile(path.join(testDir, 'notes.txt'), createTextBuffer());
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const run = (options: Partial<ConvertOptions> = {}) =>
+    convertImages(testDir, {
+      format: 'webp',
+      quality: '90',
+      output: outputDir,
+      recursive: false,
+      zip: false,
+      incremental: true,
+      ...options,
+    });
+
+  it('should skip unchanged files and report counts', async () => {
+    expect((await run()).stats).toMatchObject({ converted: 2, upToDate: 0, unsupported: 1 });
+
+    expect((await run()).stats).toMatchObject({ converted: 0, upToDate: 2, unsupported: 1 });
+
+    await fs.writeFile(path.join(testDir, 'b.png'), await createSolidImage(8, 8));
+    expect((await run()).stats).toMatchObject({ converted: 1, upToDate: 1, unsupported: 1 });
+  });
+
+  it('should reconvert when the effective options change', async () => {
+    await run();
+    expect((await run({ quality: '50' })).stats).toMatchObject({ converted: 2, upToDate: 0 });
+  });
+
+  it('should reconvert when an output was deleted', async () => {
+    await run();
+    await fs.rm(path.join(outputDir, 'a.webp'));
+    expect((await run()).stats).toMatchObject({ converted: 1, upToDate: 1 });
+  });
+
+  it('should keep skipped files in the variant manifest', async () => {
+    await run({ widths: '8' });
+    await run({ widths: '8' });
+
+    const manifest = JSON.parse(await fs.readFile(path.join(outputDir, 'manifest.json'), 'utf8'));
+    expect(Object.keys(manifest)).toEqual(['a.png', 'b.png']);
+  });
+
+  it('should reject incremental zip output', async () => {
+    await expect(run({ zip: true })).rejects.toThrow('cannot be combined with zip');
+  });
+});
+
+describe('Overwrite policy', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'a.png'), await createSolidImage(16, 16));
+    await fs.writeFile(path.join(testDir, 'b.png'), await createSolidImage(16, 16));
+    await fs.writeFile(path.join(outputDir, 'a.webp'), 'existing');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+      await fs.rm(outputDir + '.zip', { force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const convert = (options: Partial<ConvertOptions>) =>
+    convertImages(testDir, { format: 'webp', quality: '90', output: outputDir, recursive: false, zip: false, ...options });
+
+  it('should fail instead of prompting when stdin is not a TTY', async () => {
+    await expect(convert({})).rejects.toThrow('when not running interactively');
+  });
+
+  it('should overwrite existing files', async () => {
+    await convert({ overwrite: true });
+    expect(await getImageFormat(path.join(outputDir, 'a.webp'))).toBe('webp');
+  });
+
+  it('should keep existing files with skip-existing', async () => {
+    await convert({ skipExisting: true });
+    expect(await fs.readFile(path.join(outputDir, 'a.webp'), 'utf8')).toBe('existing');
+    expect(await getImageFormat(path.join(outputDir, 'b.webp'))).toBe('webp');
+  });
+
+  it('should fail if the output directory exists with fail-if-exists', async () => {
+    await expect(convert({ failIfExists: true })).rejects.toThrow('already exists');
+  });
+
+  it('should apply the policy to existing archives', async () => {
+    await fs.writeFile(outputDir + '.zip', 'existing');
+    await expect(convert({ zip: true, output: outputDir + '.zip', failIfExists: true })).rejects.toThrow('Output archive');
+    await convert({ zip: true, output: outputDir + '.zip', skipExisting: true });
+    expect(await fs.readFile(outputDir + '.zip', 'utf8')).toBe('existing');
+  });
+
+  it('should reject conflicting policies', async () => {
+    await expect(convert({ overwrite: true, skipExisting: true })).rejects.toThrow('Only one of');
+  });
+});
+
+describe('Conversion summary and progress events', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'photo.png'), await createSolidImage(40, 20));
+    await fs.writeFile(path.join(testDir, 'readme.txt'), createTextBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+      await fs.rm(outputDir + '.zip', { force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should return per-file results without printing anything', async () => {
+    const log = vi.spyOn(console, 'log');
+    const summary = await convertImages(testDir, { format: 'webp', quality: '90', output: outputDir, recursive: false, zip: false });
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+
+    expect(summary.output).toBe(outputDir);
+    expect(summary.stats).toEqual({ converted: 1, upToDate: 0, unsupported: 1, skipped: 0, failed: 0 });
+
+    const converted = summary.files.find((file) => file.status === 'converted');
+    expect(converted).toMatchObject({
+      input: path.join(testDir, 'photo.png'),
+      inputFormat: 'png',
+      outputs: [{ path: path.join(outputDir, 'photo.webp'), format: 'webp', width: 40, height: 20 }],
+    });
+    expect(converted?.inputSize).toBeGreaterThan(0);
+    expect(converted?.outputs[0].size).toBe((await fs.stat(path.join(outputDir, 'photo.webp'))).size);
+    expect(converted?.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should emit start, file, archive and complete events', async () => {
+    const events: ConversionEvent[] = [];
+    const summary = await convertImages(testDir, {
+      format: 'png',
+      quality: '90',
+      output: outputDir + '.zip',
+      recursive: false,
+      zip: true,
+      onProgress: (event) => events.push(event),
+    });
+
+    expect(events.map((event) => event.type)).toEqual(['start', 'file', 'file', 'archive', 'complete']);
+    expect(events.at(-1)).toEqual({ type: 'complete', summary });
+    expect(summary.files.find((file) => file.status === 'converted')?.outputs[0].path).toBe('photo.png');
+  });
+
+  it('should report the failed file before rejecting', async () => {
+    await fs.writeFile(path.join(testDir, 'broken.jpg'), createJPGBuffer());
+    const events: ConversionEvent[] = [];
+
+    await expect(
+      convertImages(testDir, {
+        format: 'webp',
+        quality: '90',
+        output: outputDir,
+        recursive: false,
+        zip: false,
+        onProgress: (event) => events.push(event),
+      })
+    ).rejects.toThrow();
+
+    const failed = events.find((event) => event.type === 'file' && event.result.status === 'failed');
+    expect(failed).toMatchObject({ result: { input: path.join(testDir, 'broken.jpg'), inputFormat: 'jpg' } });
+  });
+});
+
+describe('Continue on error', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'a-broken.jpg'), createJPGBuffer());
+    await fs.writeFile(path.join(testDir, 'b-good.png'), await createSolidImage(16, 16));
+    await fs.writeFile(path.join(testDir, 'c-broken.png'), createPNGBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+      await fs.rm(outputDir + '.zip', { force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const convert = (options: Partial<ConvertOptions>) =>
+    convertImages(testDir, { format: 'webp', quality: '90', output: outputDir, recursive: false, zip: false, concurrency: '1', ...options });
+
+  it('should finish the batch and record failures', async () => {
+    const summary = await convert({ continueOnError: true });
+
+    expect(summary.stats).toMatchObject({ converted: 1, failed: 2 });
+    const failed = summary.files.filter((file) => file.status === 'failed');
+    expect(failed.map((file) => path.basename(file.input))).toEqual(['a-broken.jpg', 'c-broken.png']);
+    expect(failed[0].error).toBeInstanceOf(Error);
+    await expect(fs.access(path.join(outputDir, 'b-good.webp'))).resolves.toBeUndefined();
+  });
+
+  it('should keep successful files in zip mode', async () => {
+    const summary = await convert({ continueOnError: true, zip: true, output: outputDir + '.zip' });
+
+    expect(summary.stats).toMatchObject({ converted: 1, failed: 2 });
+    await expect(fs.access(outputDir + '.zip')).resolves.toBeUndefined();
+  });
+
+  it('should stop at max errors and keep the results so far', async () => {
+    await fs.writeFile(path.join(testDir, 'd-good.png'), await createSolidImage(16, 16));
+    const summary = await convert({ maxErrors: '2', incremental: true });
+
+    expect(summary.aborted).toBe(true);
+    expect(summary.files.map((file) => path.basename(file.input))).toEqual(['a-broken.jpg', 'b-good.png', 'c-broken.png']);
+    expect(summary.stats).toMatchObject({ converted: 1, failed: 2 });
+    await expect(fs.access(path.join(outputDir, 'd-good.webp'))).rejects.toThrow();
+    const second = await convert({ maxErrors: '3', overwrite: true, incremental: true });
+    expect(second.aborted).toBeUndefined();
+    expect(second.stats).toMatchObject({ converted: 1, upToDate: 1, failed: 2 });
+    await expect(convert({ maxErrors: 'many' })).rejects.toThrow('Invalid max errors value');
+  });
+
+  it('should format a failure table', () => {
+    const table = formatFailureTable([
+      { input: 'photos/a.jpg', status: 'failed', outputs: [], duration: 1, error: new Error('corrupt header') },
+      { input: 'b.png', status: 'converted', outputs: [], duration: 1 },
+    ]);
+
+    expect(table.split('\n')).toEqual([
+      'File          Error',
+      '------------  -----',
+      'photos/a.jpg  corrupt header',
+    ]);
+  });
+});
+
+describe('Directory filters', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    const files = ['a.png', 'b.jpg', 'icons/c.png', 'icons/raw/d.png', 'node_modules/pkg/e.png', 'deep/er/f.png'];
+    for (const file of files) {
+      await fs.mkdir(path.dirname(path.join(testDir, file)), { recursive: true });
+      await fs.writeFile(path.join(testDir, file), '');
+    }
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const relativeFiles = async (options: Parameters<typeof createPathFilter>[0], maxDepth?: number) => {
+    const files = await collectFiles(testDir, { recursive: true, maxDepth, filter: createPathFilter(options) });
+    return files.map((file) => path.relative(testDir, file).split(path.sep).join('/')).sort();
+  };
+
+  it('should apply include and exclude globs', async () => {
+    expect(await relativeFiles({ include: ['**/*.png'], exclude: ['node_modules', '**/raw/**'] })).toEqual([
+      'a.png',
+      'deep/er/f.png',
+      'icons/c.png',
+    ]);
+    expect(await relativeFiles({ include: ['icons/*.png', 'f.png'], exclude: ['deep/er'] })).toEqual(['icons/c.png']);
+  });
+
+  it('should never traverse excluded directories', async () => {
+    const filter = createPathFilter({ exclude: ['node_modules'] });
+    const visited: string[] = [];
+    await collectFiles(testDir, {
+      recursive: true,
+      filter: {
+        includeDirectory: filter.includeDirectory,
+        includeFile: (relativePath) => {
+          visited.push(relativePath);
+          return filter.includeFile(relativePath);
+        },
+      },
+    });
+
+    expect(visited).toContain('icons/raw/d.png');
+    expect(visited.some((file) => file.startsWith('node_modules/'))).toBe(false);
+  });
+
+  it('should honour gitignore-style rules', async () => {
+    expect(await relativeFiles({ ignoreRules: 'node_modules/\n*.jpg\nicons/*\n!icons/c.png\n' })).toEqual([
+      'a.png',
+      'deep/er/f.png',
+      'icons/c.png',
+    ]);
+  });
+
+  it('should limit the walk depth', async () => {
+    expect(await relativeFiles({}, 0)).toEqual(['a.png', 'b.jpg']);
+    expect(await relativeFiles({ exclude: ['node_modules'] }, 1)).toEqual(['a.png', 'b.jpg', 'icons/c.png']);
+  });
+
+  it('should validate filter options in convertImages', async () => {
+    const options: ConvertOptions = { format: 'webp', quality: '90', output: testDir + '-out', recursive: true, zip: false };
+    await expect(convertImages(testDir, { ...options, maxDepth: '-1' })).rejects.toThrow('Invalid max depth value');
+    await expect(convertImages(testDir, { ...options, ignoreFile: path.join(testDir, 'missing') })).rejects.toThrow('Cannot read ignore file');
+  });
+});
+
+describe('Metadata options', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    // A 40x20 photo stored sideways, with an EXIF orientation tag and a Display P3 profile
+    const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#ff8000' } })
+      .withIccProfile('p3')
+      .withMetadata({ orientation: 6 })
+      .withExifMerge({ IFD0: { Make: 'Phone' } })
+      .jpeg()
+      .toBuffer();
+    await fs.writeFile(path.join(testDir, 'photo.jpg'), photo);
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const convert = async (options: Partial<ConvertOptions>) => {
+    await convertImages(path.join(testDir, 'photo.jpg'), {
+      format: 'jpg',
+      quality: '90',
+      output: outputDir,
+      recursive: false,
+      zip: false,
+      overwrite: true,
+      ...options,
+    });
+    return sharp(path.join(outputDir, 'photo.jpg')).metadata();
+  };
+
+  it('should strip metadata by default and with strip', async () => {
+    for (const options of [{}, { strip: true }]) {
+      const metadata = await convert(options);
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.icc).toBeUndefined();
+    }
+  });
+
+  it('should rotate according to the EXIF orientation', async () => {
+    const metadata = await convert({ autoOrient: true });
+    expect(metadata.width).toBe(20);
+    expect(metadata.height).toBe(40);
+  });
+
+  it('should keep all metadata or only the ICC profile', async () => {
+    const all = await convert({ keepMetadata: true });
+    expect(all.exif).toBeDefined();
+    expect(all.icc).toBeDefined();
+
+    const icc = await convert({ keepIcc: true });
+    expect(icc.exif).toBeUndefined();
+    expect(icc.icc).toBeDefined();
+  });
+
+  it('should mark rotated and flipped outputs upright when keeping metadata', async () => {
+    const source = await sharp(path.join(testDir, 'photo.jpg')).metadata();
+    expect((await convert({ keepMetadata: true })).orientation).toBe(6);
+
+    for (const options of [
+      { transforms: [{ type: 'rotate', angle: 90 }] },
+      { transforms: [{ type: 'flip' }] },
+      { autoOrient: true },
+      { autoOrient: true, transforms: [{ type: 'flop' }] },
+    ] satisfies Partial<ConvertOptions>[]) {
+      const metadata = await convert({ keepMetadata: true, ...options });
+      expect(metadata.orientation ?? 1).toBe(1);
+      expect(metadata.icc).toEqual(source.icc);
+      expect(metadata.exif?.toString('latin1')).toContain('Phone');
+    }
+  });
+
+  it('should write copyright and artist fields', async () => {
+    const metadata = await convert({ copyright: 'Example Ltd', artist: 'Jane' });
+    const exif = metadata.exif?.toString('latin1') ?? '';
+    expect(exif).toContain('Example Ltd');
+    expect(exif).toContain('Jane');
+    expect(exif).not.toContain('Phone');
+  });
+
+  it('should reject conflicting metadata options', async () => {
+    await expect(convert({ strip: true, keepIcc: true })).rejects.toThrow('Strip cannot be combined');
+  });
+});
+
+describe('Optimization', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'nested'), { recursive: true });
+    // An uncompressed PNG shrinks when re-encoded; a low-quality JPEG grows at high quality
+    await fs.writeFile(path.join(testDir, 'flat.png'), await sharp({
+      create: { width: 64, height: 64, channels: 3, background: '#3366cc' },
+    }).png({ compressionLevel: 0 }).toBuffer());
+    await fs.writeFile(path.join(testDir, 'nested', 'small.jpg'), await sharp({
+      create: { width: 64, height: 64, channels: 3, background: '#cc6633' },
+    }).jpeg({ quality: 20 }).toBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const optimize = (inputPath: string, options: Partial<ConvertOptions> = {}) =>
+    convertImages(inputPath, {
+      format: 'same',
+      quality: '100',
+      output: outputDir,
+      recursive: true,
+      zip: false,
+      ...options,
+    });
+
+  it('should re-encode inputs in their own format and keep originals that do not shrink', async () => {
+    const summary = await optimize(testDir);
+    const byName = Object.fromEntries(summary.files.map((file) => [path.basename(file.input), file]));
+
+    const png = byName['flat.png'];
+    expect(png.keptOriginal).toBe(false);
+    expect(png.outputs[0]).toMatchObject({ path: path.join(outputDir, 'flat.png'), format: 'png', width: 64, height: 64 });
+    expect(png.outputs[0].size).toBeLessThan(png.inputSize!);
+    expect(await getImageFormat(path.join(outputDir, 'flat.png'))).toBe('png');
+
+    const jpg = byName['small.jpg'];
+    expect(jpg.keptOriginal).toBe(true);
+    expect(jpg.outputs[0].size).toBe(jpg.inputSize);
+    const original = await fs.readFile(path.join(testDir, 'nested', 'small.jpg'));
+    expect(await fs.readFile(path.join(outputDir, 'nested', 'small.jpg'))).toEqual(original);
+
+    const saved = png.inputSize! - png.outputs[0].size;
+    const total = png.inputSize! + jpg.inputSize!;
+    expect(formatSavings(summary.files)).toMatch(new RegExp(`^Saved ${saved} of ${total} bytes \\(-\\d+\\.\\d%\\) across 2 file\\(s\\)$`));
+  });
+
+  it('should keep the ICC profile and orientation of re-encoded images', async () => {
+    const source = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#3366cc' } })
+      .jpeg({ quality: 100 })
+      .withMetadata({ orientation: 6 })
+      .withIccProfile('p3')
+      .toBuffer();
+    await fs.writeFile(path.join(testDir, 'nested', 'small.jpg'), source);
+    const summary = await optimize(path.join(testDir, 'nested'), { quality: '50' });
+
+    expect(summary.files[0].keptOriginal).toBe(false);
+    const output = await sharp(path.join(outputDir, 'small.jpg')).metadata();
+    expect(output).toMatchObject({ width: 20, height: 40 });
+    expect(output.orientation).toBeUndefined();
+    expect(output.icc).toEqual((await sharp(source).metadata()).icc);
+
+    const stripped = await optimize(path.join(testDir, 'nested'), { quality: '50', overwrite: true, strip: true });
+    expect(stripped.files[0].keptOriginal).toBe(false);
+    const strippedOutput = await sharp(path.join(outputDir, 'small.jpg')).metadata();
+    expect(strippedOutput).toMatchObject({ width: 40, height: 20 });
+    expect(strippedOutput.icc).toBeUndefined();
+  });
+
+  it('should replace inputs in place without leaving temporary files', async () => {
+    const pngPath = path.join(testDir, 'flat.png');
+    const before = (await fs.stat(pngPath)).size;
+    const summary = await optimize(testDir, { output: undefined, inPlace: true });
+
+    expect(summary.output).toBe(testDir);
+    expect(summary.files.find((file) => file.input === pngPath)?.outputs[0].path).toBe(pngPath);
+    expect((await fs.stat(pngPath)).size).toBeLessThan(before);
+    expect((await fs.readdir(testDir)).sort()).toEqual(['flat.png', 'nested']);
+    expect(await fs.readdir(path.join(testDir, 'nested'))).toEqual(['small.jpg']);
+    await expect(fs.access(outputDir)).rejects.toThrow();
+  });
+
+  it('should reject in-place mode with other formats or outputs', async () => {
+    await expect(optimize(testDir, { output: undefined, inPlace: true, format: 'png' })).rejects.toThrow('In-place mode requires format same');
+    await expect(optimize(testDir, { inPlace: true })).rejects.toThrow('In-place mode cannot be combined with an output path');
+    await expect(optimize(testDir, { widths: '100' })).rejects.toThrow('Variant widths cannot be combined with format same');
+  });
+});
+
+describe('Watch mode', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'first.png'), await createSolidImage(40, 20));
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const baseOptions: ConvertOptions = {
+    format: 'webp',
+    quality: '80',
+    recursive: true,
+    zip: false,
+  };
+
+  it('should convert added files and remove outputs of deleted sources', async () => {
+    const events: ConversionEvent[] = [];
+    const watcher = await watchImages(testDir, {
+      ...baseOptions,
+      output: outputDir,
+      widths: '10',
+      onProgress: (event) => events.push(event),
+    });
+    const readManifest = async () => JSON.parse(await fs.readFile(path.join(outputDir, 'manifest.json'), 'utf8'));
+
+    try {
+      expect(watcher.initial.stats.converted).toBe(1);
+      expect(events.some((event) => event.type === 'watch')).toBe(true);
+
+      await fs.mkdir(path.join(testDir, 'nested'));
+      await fs.writeFile(path.join(testDir, 'nested', 'second.png'), await createSolidImage(30, 30));
+      await vi.waitFor(async () => {
+        await fs.access(path.join(outputDir, 'nested', 'second-10w.webp'));
+        expect(Object.keys(await readManifest())).toEqual(['first.png', 'nested/second.png']);
+      }, { timeout: 5000, interval: 50 });
+
+      await fs.rm(path.join(testDir, 'first.png'));
+      await vi.waitFor(() => {
+        expect(events.find((event) => event.type === 'remove')).toEqual({
+          type: 'remove',
+          input: path.join(testDir, 'first.png'),
+          outputs: [path.join(outputDir, 'first-10w.webp')],
+        });
+      }, { timeout: 5000, interval: 50 });
+      await expect(fs.access(path.join(outputDir, 'first-10w.webp'))).rejects.toThrow();
+      expect(Object.keys(await readManifest())).toEqual(['nested/second.png']);
+    } finally {
+      await watcher.close();
+    }
+  });
+
+  it('should reject inputs and options that cannot be watched', async () => {
+    await expect(watchImages(testDir, { ...baseOptions, zip: true })).rejects.toThrow('Watch mode cannot be combined with zip output');
+    await expect(watchImages(path.join(testDir, 'first.png'), { ...baseOptions, output: outputDir })).rejects.toThrow('Watch mode requires a directory input');
+  });
+});
+
+describe('Config files and presets', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const writeConfig = (name: string, content: unknown) =>
+    fs.writeFile(path.join(testDir, name), typeof content === 'string' ? content : JSON.stringify(content));
+
+  it('should discover a JSON config and normalize preset values', async () => {
+    await writeConfig('magic-images.config.json', {
+      presets: {
+        web: { format: 'webp', quality: 80, widths: [320, 640], include: '*.png', encoder: { webp: { effort: 6 } } },
+      },
+    });
+
+    const config = await loadConfig({ cwd: testDir });
+    expect(config?.path).toBe(path.join(testDir, 'magic-images.config.json'));
+    expect(resolvePreset(config, 'web')).toEqual({
+      format: 'webp',
+      quality: '80',
+      widths: '320,640',
+      include: ['*.png'],
+      encoder: { webp: { effort: 6 } },
+    });
+    expect(() => resolvePreset(config, 'print')).toThrow('Unknown preset: print. Available presets: web');
+  });
+
+  it('should read the magicImages key from package.json and TypeScript configs', async () => {
+    await writeConfig('package.json', { name: 'site', magicImages: { presets: { thumbs: { width: 200 } } } });
+    expect(resolvePreset(await loadConfig({ cwd: testDir }), 'thumbs')).toEqual({ width: '200' });
+
+    await writeConfig('magic-images.config.ts', `
+      const quality: number = 70;
+      export default { presets: { avif: { format: 'avif', quality } } };
+    `);
+    expect(resolvePreset(await loadConfig({ cwd: testDir }), 'avif')).toEqual({ format: 'avif', quality: '70' });
+    expect(await loadConfig({ cwd: path.join(testDir, 'missing') })).toBeUndefined();
+  });
+
+  it('should name the offending key in validation errors', async () => {
+    const configPath = path.join(testDir, 'custom.json');
+    const expectError = async (content: unknown, message: string) => {
+      await fs.writeFile(configPath, JSON.stringify(content));
+      await expect(loadConfig({ configPath })).rejects.toThrow(`Invalid config in ${configPath}: ${message}`);
+    };
+
+    await expectError({ presets: { web: { qualty: 80 } } }, 'presets.web.qualty is not a known option');
+    await expectError({ presets: { web: { quality: true } } }, 'presets.web.quality must be a string or number');
+    await expectError({ presets: { web: { recursive: 'yes' } } }, 'presets.web.recursive must be true or false');
+    await expectError({ presets: { web: { encoder: { webp: { speed: 1 } } } } }, 'presets.web.encoder: Unsupported webp encoder option: speed');
+    await expectError({ preset: {} }, 'preset is not a known key');
+  });
+
+  it('should let explicit options override preset values', () => {
+    const preset = { format: 'webp', quality: '80', recursive: true, encoder: { webp: { effort: 6, lossless: true } } };
+    const options = applyPreset(
+      preset,
+      { format: 'jpg', quality: '60', recursive: false, zip: false, encoder: { webp: { effort: 2 } } },
+      ['quality']
+    );
+
+    expect(options).toMatchObject({ format: 'webp', quality: '60', recursive: true, zip: false });
+    expect(options.encoder).toEqual({ webp: { effort: 2, lossless: true } });
+  });
+});
+
+describe('Conversion rules', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'icons'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'photos', 'trip'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'icons', 'home.png'), await createSolidImage(16, 16));
+    await fs.writeFile(path.join(testDir, 'photos', 'trip', 'beach.png'), await createSolidImage(80, 40));
+    await fs.writeFile(path.join(testDir, 'photos', 'loader.gif'), await sharp({
+      create: { width: 8, height: 8, channels: 3, background: '#00ff00' },
+    }).gif().toBuffer());
+    await fs.writeFile(path.join(testDir, 'banner.png'), await createSolidImage(30, 10));
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const rulesOptions: ConvertOptions = {
+    format: 'jpg',
+    quality: '90',
+    output: '',
+    recursive: true,
+    zip: false,
+    rules: [
+      { match: '*.gif', skip: true },
+      { name: 'icons', match: 'icons/**', options: { format: 'png', encoder: { png: { compressionLevel: 9 } } } },
+      { match: ['photos/**'], options: { format: 'webp', quality: '75', width: '40' } },
+    ],
+  };
+
+  it('should convert each file with the options of the first matching rule', async () => {
+    const summary = await convertImages(testDir, { ...rulesOptions, output: outputDir });
+    const byName = Object.fromEntries(summary.files.map((file) => [path.basename(file.input), file]));
+
+    expect(byName['loader.gif']).toMatchObject({ status: 'skipped', skippedBy: 'rule', rule: 'rule 1 (*.gif)' });
+    expect(byName['home.png']).toMatchObject({ status: 'converted', rule: 'icons' });
+    expect(byName['home.png'].outputs[0]).toMatchObject({ path: path.join(outputDir, 'icons', 'home.png'), format: 'png' });
+    expect(byName['beach.png'].rule).toBe('rule 3 (photos/**)');
+    expect(byName['beach.png'].outputs[0]).toMatchObject({ format: 'webp', width: 40, height: 20 });
+    expect(byName['banner.png'].rule).toBeUndefined();
+    expect(byName['banner.png'].outputs[0]).toMatchObject({ format: 'jpg', width: 30 });
+    expect(summary.stats).toMatchObject({ converted: 3, skipped: 1 });
+  });
+
+  it('should keep rule outputs up to date in incremental mode', async () => {
+    await convertImages(testDir, { ...rulesOptions, output: outputDir, incremental: true });
+    const second = await convertImages(testDir, { ...rulesOptions, output: outputDir, incremental: true });
+    expect(second.stats).toMatchObject({ converted: 0, upToDate: 3, skipped: 1 });
+
+    const changed = await convertImages(testDir, {
+      ...rulesOptions,
+      output: outputDir,
+      incremental: true,
+      rules: rulesOptions.rules?.map((rule) => (rule.name === 'icons' ? { ...rule, options: { format: 'webp' } } : rule)),
+    });
+    expect(changed.files.filter((file) => file.status === 'converted').map((file) => path.basename(file.input))).toEqual(['home.png']);
+  });
+
+  it('should plan which rule each file matches without writing anything', async () => {
+    const plan = await planConversion(testDir, { ...rulesOptions, output: outputDir });
+    await fs.writeFile(path.join(testDir, 'notes.txt'), createTextBuffer());
+    const withText = await planConversion(testDir, { ...rulesOptions, output: outputDir });
+
+    expect(plan.files.map((file) => [path.relative(testDir, file.input), file.action, file.format, file.rule])).toEqual([
+      ['banner.png', 'convert', 'jpg', undefined],
+      [path.join('icons', 'home.png'), 'convert', 'png', 'icons'],
+      [path.join('photos', 'loader.gif'), 'skip', undefined, 'rule 1 (*.gif)'],
+      [path.join('photos', 'trip', 'beach.png'), 'convert', 'webp', 'rule 3 (photos/**)'],
+    ]);
+    expect(withText.files.find((file) => file.input.endsWith('notes.txt'))?.action).toBe('unsupported');
+    await expect(fs.access(outputDir)).rejects.toThrow();
+  });
+
+  it('should name the rule in validation errors', async () => {
+    const convert = (rules: ConvertOptions['rules']) => convertImages(testDir, { ...rulesOptions, output: outputDir, rules });
+
+    await expect(convert([{ match: 'icons/**', options: { format: 'bmp' } }])).rejects.toThrow('Invalid rule 1 (icons/**): Unsupported format: bmp');
+    await expect(convert([{ match: 'a', options: { widths: '100' } as never }])).rejects.toThrow('Invalid rule 1 (a): widths cannot be set per rule');
+    await expect(convert([{ match: [] }])).rejects.toThrow('match must be a glob or a non-empty list of globs');
+
+    const configPath = path.join(testDir, 'config.json');
+    await fs.writeFile(configPath, JSON.stringify({ presets: { site: { rules: [{ match: '*.png', options: { quality: 70 } }, { match: 'x', options: { zip: true } }] } } }));
+    await expect(loadConfig({ configPath })).rejects.toThrow('presets.site.rules[1].options.zip is not a known option');
+  });
+});
+
+describe('Dry run', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'sub'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'a.png'), await createSolidImage(40, 20));
+    await fs.writeFile(path.join(testDir, 'a.jpg'), await createSolidImage(40, 20, 'jpeg'));
+    await fs.writeFile(path.join(testDir, 'sub', 'b.png'), await createSolidImage(30, 30));
+    await fs.writeFile(path.join(testDir, 'readme.txt'), createTextBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const baseOptions: ConvertOptions = {
+    format: 'webp',
+    quality: '80',
+    output: '',
+    recursive: true,
+    zip: false,
+  };
+
+  it('should plan output paths and flag collisions without writing anything', async () => {
+    const plan = await planConversion(testDir, { ...baseOptions, output: outputDir });
+
+    expect(plan).toMatchObject({ input: testDir, output: outputDir, archive: undefined });
+    expect(plan.files.map((file) => [path.basename(file.input), file.action, file.outputs, file.collision])).toEqual([
+      ['a.jpg', 'convert', [path.join(outputDir, 'a.webp')], true],
+      ['a.png', 'convert', [path.join(outputDir, 'a.webp')], true],
+      ['readme.txt', 'unsupported', [], undefined],
+      ['b.png', 'convert', [path.join(outputDir, 'sub', 'b.webp')], undefined],
+    ]);
+    expect(plan.collisions).toEqual([
+      { output: path.join(outputDir, 'a.webp'), inputs: [path.join(testDir, 'a.jpg'), path.join(testDir, 'a.png')] },
+    ]);
+    await expect(fs.access(outputDir)).rejects.toThrow();
+
+    const text = formatPlan(plan);
+    expect(text.split('\n')[0]).toMatch(/^File\s+Action\s+Output\s+Rule$/);
+    expect(text).toContain('convert!');
+    expect(text).toContain(`Dry run: 3 to convert, 0 skipped, 1 unsupported into ${outputDir}. Nothing was written.`);
+    expect(text).toContain(`Collision: ${path.join(outputDir, 'a.webp')} would be written by`);
+  });
+
+  it('should plan archive entries without creating the archive or a temporary directory', async () => {
+    const archivePath = path.join(outputDir, 'images');
+    const before = await fs.readdir(process.cwd());
+    const plan = await planConversion(testDir, { ...baseOptions, output: archivePath, zip: true, include: ['*.png'] });
+
+    expect(plan).toMatchObject({ output: `${archivePath}.zip`, archive: 'zip', collisions: [] });
+    expect(plan.files.map((file) => file.outputs)).toEqual([['a.webp'], ['sub/b.webp']]);
+    await expect(fs.access(outputDir)).rejects.toThrow();
+    expect(await fs.readdir(process.cwd())).toEqual(before);
+  });
+
+  it('should predict variant names as the conversion writes them', async () => {
+    const options = { ...baseOptions, output: outputDir, include: ['*.png'], widths: '10,20', variantTemplate: '{name}-{width}x{height}.{ext}' };
+    const plan = await planConversion(testDir, options);
+    const summary = await convertImages(testDir, options);
+
+    const planned = plan.files.flatMap((file) => file.outputs);
+    expect(planned).toEqual(summary.files.flatMap((file) => file.outputs.map((output) => output.path)));
+    expect(planned.map((output) => path.basename(output))).toEqual(['a-10x5.webp', 'a-20x10.webp', 'b-10x10.webp', 'b-20x20.webp']);
+  });
+});
+
+describe('Output templates', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'sub'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'a.png'), await createSolidImage(40, 20));
+    await fs.writeFile(path.join(testDir, 'a.jpeg'), await createSolidImage(30, 30, 'jpeg'));
+    await fs.writeFile(path.join(testDir, 'sub', 'b.png'), await createSolidImage(20, 10));
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const baseOptions = (): ConvertOptions => ({
+    format: 'webp',
+    quality: '80',
+    output: outputDir,
+    recursive: true,
+    zip: false,
+    concurrency: '1',
+  });
+
+  it('should name outputs after their content hash and dimensions', async () => {
+    const summary = await convertImages(testDir, { ...baseOptions(), outputTemplate: '{dir}/{name}.{width}x{height}.{hash:8}.{ext}', include: ['*.png'] });
+
+    for (const output of summary.files.flatMap((file) => file.outputs)) {
+      const hash = createHash('sha256').update(await fs.readFile(output.path)).digest('hex');
+      expect(path.basename(output.path)).toMatch(new RegExp(`^[ab]\\.${output.width}x${output.height}\\.${hash.slice(0, 8)}\\.webp$`));
+    }
+    expect(summary.files.map((file) => path.dirname(file.outputs[0].path))).toEqual([outputDir, path.join(outputDir, 'sub')]);
+  });
+
+  it('should fill in the source extension and the date of the run', async () => {
+    const summary = await convertImages(testDir, { ...baseOptions(), outputTemplate: '{date}/{name}-{srcExt}.{ext}', onCollision: 'error' });
+
+    const date = summary.files[0].outputs[0].path.split(path.sep).at(-2);
+    expect(date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(summary.files.map((file) => toPortablePath(outputDir, file.outputs[0].path))).toEqual([`${date}/a-jpeg.webp`, `${date}/a-png.webp`, `${date}/b-png.webp`]);
+  });
+
+  it('should apply the collision policy to sources that map to the same output', async () => {
+    const failing = await convertImages(testDir, { ...baseOptions(), continueOnError: true, onCollision: 'error' });
+    expect(failing.stats).toMatchObject({ converted: 2, failed: 1 });
+    expect(failing.files[1].error?.message).toContain(`is already written by ${path.join(testDir, 'a.jpeg')}`);
+
+    const suffixed = await convertImages(testDir, { ...baseOptions(), overwrite: true, onCollision: 'suffix' });
+    expect(suffixed.files.map((file) => path.basename(file.outputs[0].path))).toEqual(['a.webp', 'a-1.webp', 'b.webp']);
+    expect((await sharp(path.join(outputDir, 'a-1.webp')).metadata()).width).toBe(40);
+
+    const overwritten = await convertImages(testDir, { ...baseOptions(), overwrite: true, onCollision: 'overwrite' });
+    expect(overwritten.files.map((file) => path.basename(file.outputs[0].path))).toEqual(['a.webp', 'a.webp', 'b.webp']);
+
+    // Later sources replace earlier outputs by default, as before collision policies existed
+    const byDefault = await convertImages(testDir, { ...baseOptions(), overwrite: true });
+    expect(byDefault.stats).toMatchObject({ converted: 3, failed: 0 });
+    expect((await sharp(path.join(outputDir, 'a.webp')).metadata()).width).toBe(40);
+  });
+
+  it('should assign suffixes in walk order whatever order files finish in', async () => {
+    // The first source takes far longer to encode than the second
+    await fs.writeFile(path.join(testDir, 'a.jpeg'), await createSolidImage(3000, 2000, 'jpeg'));
+    await fs.writeFile(path.join(testDir, 'a.png'), await createSolidImage(40, 2000));
+    const summary = await convertImages(testDir, { ...baseOptions(), outputTemplate: '{name}-{height}.{ext}', concurrency: '2', onCollision: 'suffix' });
+
+    expect(summary.files.map((file) => path.basename(file.outputs[0].path))).toEqual(['a-2000.webp', 'a-2000-1.webp', 'b-10.webp']);
+    expect((await sharp(path.join(outputDir, 'a-2000.webp')).metadata()).width).toBe(3000);
+  });
+
+  it('should keep the outputs of up-to-date sources from other sources in incremental mode', async () => {
+    const options = { ...baseOptions(), incremental: true, onCollision: 'suffix' };
+    await convertImages(testDir, options);
+    await fs.writeFile(path.join(testDir, 'a.png'), await createSolidImage(50, 20));
+    const second = await convertImages(testDir, options);
+
+    expect(second.stats).toMatchObject({ converted: 1, upToDate: 2 });
+    expect((await sharp(path.join(outputDir, 'a.webp')).metadata()).width).toBe(30);
+    expect((await sharp(path.join(outputDir, 'a-1.webp')).metadata()).width).toBe(50);
+  });
+
+  it('should fail a new source that maps to the output of an up-to-date source', async () => {
+    await fs.rm(path.join(testDir, 'a.jpeg'));
+    await convertImages(testDir, { ...baseOptions(), incremental: true });
+    await fs.writeFile(path.join(testDir, 'a.jpeg'), await createSolidImage(30, 30, 'jpeg'));
+    const second = await convertImages(testDir, { ...baseOptions(), incremental: true, continueOnError: true, onCollision: 'error' });
+
+    expect(second.stats).toMatchObject({ failed: 1, upToDate: 2 });
+    expect(second.files[0].error?.message).toContain(`is already written by ${path.join(testDir, 'a.png')}`);
+    expect((await sharp(path.join(outputDir, 'a.webp')).metadata()).width).toBe(40);
+  });
+
+  it('should let sources with identical content share a hash-named output', async () => {
+    await fs.copyFile(path.join(testDir, 'a.png'), path.join(testDir, 'sub', 'copy.png'));
+    const summary = await convertImages(testDir, { ...baseOptions(), outputTemplate: '{hash:12}.{ext}', include: ['*.png'] });
+
+    expect(summary.stats).toMatchObject({ converted: 3, failed: 0 });
+    const [a, b, copy] = summary.files.map((file) => file.outputs[0].path);
+    expect(copy).toBe(a);
+    expect(b).not.toBe(a);
+    expect(await fs.readdir(outputDir)).toHaveLength(2);
+  });
+
+  it('should plan templated outputs with suffixes and placeholders for encoded values', async () => {
+    const plan = await planConversion(testDir, { ...baseOptions(), outputTemplate: '{name}.{hash:8}.{ext}' });
+    expect(plan.files.map((file) => path.basename(file.outputs[0]))).toEqual(['a.{hash:8}.webp', 'a.{hash:8}.webp', 'b.{hash:8}.webp']);
+    expect(plan.collisions).toEqual([]);
+    expect(plan.files.some((file) => file.collision)).toBe(false);
+
+    const suffixed = await planConversion(testDir, { ...baseOptions(), onCollision: 'suffix' });
+    expect(suffixed.files.map((file) => toPortablePath(outputDir, file.outputs[0]))).toEqual(['a.webp', 'a-1.webp', 'sub/b.webp']);
+    expect(suffixed.collisions).toEqual([]);
+  });
+
+  it('should plan the suffixes a concurrent run assigns', async () => {
+    // The first source takes far longer to encode than the second
+    await fs.writeFile(path.join(testDir, 'a.jpeg'), await createSolidImage(3000, 2000, 'jpeg'));
+    const options = { ...baseOptions(), widths: '20', concurrency: '2', onCollision: 'suffix' };
+    const plan = await planConversion(testDir, options);
+    const summary = await convertImages(testDir, options);
+
+    expect(summary.files.map((file) => file.outputs.map((output) => output.path))).toEqual(plan.files.map((file) => file.outputs));
+    expect(plan.files.map((file) => path.basename(file.outputs[0]))).toEqual(['a-20w.webp', 'a-20w-1.webp', 'b-20w.webp']);
+  });
+
+  it('should reject invalid templates and collision policies', async () => {
+    await expect(convertImages(testDir, { ...baseOptions(), outputTemplate: '{name}.{size}.{ext}' })).rejects.toThrow('Unknown output template token: {size}');
+    await expect(convertImages(testDir, { ...baseOptions(), outputTemplate: '../{name}.{ext}' })).rejects.toThrow('Outputs must stay inside the output directory');
+    await expect(convertImages(testDir, { ...baseOptions(), outputTemplate: '{name}.{ext}', widths: '10' })).rejects.toThrow('Output templates cannot be combined with variant widths');
+    await expect(convertImages(testDir, { ...baseOptions(), onCollision: 'rename' })).rejects.toThrow('Unsupported collision policy: rename');
+    await expect(fs.access(outputDir)).rejects.toThrow();
+  });
+});
+
+describe('Archive output', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'sub'), { recursive: true });
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(testDir, 'a.png'), await createSolidImage(40, 20));
+    await fs.writeFile(path.join(testDir, 'sub', 'b.png'), await createSolidImage(20, 10));
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const baseOptions = (): ConvertOptions => ({
+    format: 'webp',
+    quality: '80',
+    recursive: true,
+    zip: false,
+  });
+
+  it('should stream outputs into a zip archive without a temporary directory', async () => {
+    const archivePath = path.join(outputDir, 'images.zip');
+    const before = await fs.readdir(process.cwd());
+    const events: ConversionEvent[] = [];
+    const summary = await convertImages(testDir, { ...baseOptions(), zip: true, output: archivePath, onProgress: (event) => events.push(event) });
+
+    expect(await fs.readdir(process.cwd())).toEqual(before);
+    expect(await fs.readdir(outputDir)).toEqual(['images.zip']);
+    const archive = await fs.readFile(archivePath);
+    expect(listZipEntries(archive)).toEqual(['a.webp', 'sub/b.webp']);
+    expect(summary.files.map((file) => file.outputs[0].path)).toEqual(['a.webp', 'sub/b.webp']);
+    expect(events.find((event) => event.type === 'archive')).toEqual({ type: 'archive', path: archivePath, bytes: archive.length });
+  });
+
+  it('should write tar and gzipped tar archives with the variant manifest', async () => {
+    const tarSummary = await convertImages(testDir, { ...baseOptions(), archive: 'tar', output: path.join(outputDir, 'images') });
+    expect(tarSummary.output).toBe(path.join(outputDir, 'images.tar'));
+    expect(listTarEntries(await fs.readFile(tarSummary.output))).toEqual(['a.webp', 'sub/b.webp']);
+
+    const tgzSummary = await convertImages(testDir, { ...baseOptions(), archive: 'tgz', compressionLevel: '1', output: path.join(outputDir, 'images.tgz'), widths: '10' });
+    expect(tgzSummary.output).toBe(path.join(outputDir, 'images.tgz'));
+    expect(tgzSummary.manifest).toBe('manifest.json');
+    expect(listTarEntries(gunzipSync(await fs.readFile(tgzSummary.output)))).toEqual(['a-10w.webp', 'manifest.json', 'sub/b-10w.webp']);
+  });
+
+  it('should keep the archive entry of the first source in walk order', async () => {
+    // The first source takes far longer to encode than the second
+    await fs.writeFile(path.join(testDir, 'a.jpeg'), await createSolidImage(3000, 2000, 'jpeg'));
+    const archivePath = path.join(outputDir, 'images.tar');
+    const summary = await convertImages(testDir, { ...baseOptions(), archive: 'tar', output: archivePath, concurrency: '2', onCollision: 'overwrite' });
+
+    expect(summary.files.map((file) => file.outputs[0].path)).toEqual(['a.webp', 'a.webp', 'sub/b.webp']);
+    expect(listTarEntries(await fs.readFile(archivePath))).toEqual(['a.webp', 'sub/b.webp']);
+    expect((await sharp(readTarEntry(await fs.readFile(archivePath), 'a.webp')).metadata()).width).toBe(3000);
+  });
+
+  it('should remove the partial archive when a file fails', async () => {
+    await fs.writeFile(path.join(testDir, 'sub', 'c-broken.png'), createPNGBuffer());
+    const archivePath = path.join(outputDir, 'images.tar.gz');
+
+    await expect(convertImages(testDir, { ...baseOptions(), archive: 'tgz', output: archivePath, concurrency: '1' })).rejects.toThrow();
+    expect(await fs.readdir(outputDir)).toEqual([]);
+  });
+
+  it('should reject invalid archive options', async () => {
+    const convert = (options: Partial<ConvertOptions>) => convertImages(testDir, { ...baseOptions(), output: path.join(outputDir, 'images'), ...options });
+
+    await expect(convert({ archive: 'rar' })).rejects.toThrow('Unsupported archive format: rar');
+    await expect(convert({ zip: true, archive: 'tar' })).rejects.toThrow('Zip output cannot be combined with archive format tar');
+    await expect(convert({ archive: 'tar', compressionLevel: '5' })).rejects.toThrow('Compression level requires a zip or tgz archive');
+    await expect(convert({ archive: 'zip', compressionLevel: '10' })).rejects.toThrow('Invalid compression level: 10');
+    await expect(convert({ archive: 'tgz', incremental: true })).rejects.toThrow('Incremental mode cannot be combined with tgz archive output');
+  });
+});
+
+describe('Archive and stdin input', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'images', 'sub'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'images', 'a.png'), await createSolidImage(40, 20));
+    await fs.writeFile(path.join(testDir, 'images', 'sub', 'b.png'), await createSolidImage(20, 10));
+    await fs.writeFile(path.join(testDir, 'images', 'sub', 'notes.txt'), createTextBuffer());
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const baseOptions = (): ConvertOptions => ({
+    format: 'webp',
+    quality: '80',
+    recursive: true,
+    zip: false,
+  });
+
+  // Packs the test images into an input archive
+  const createInputArchive = async (archive: string) => {
+    const summary = await convertImages(path.join(testDir, 'images'), { ...baseOptions(), format: 'same', archive, output: path.join(testDir, 'input') });
+    return summary.output;
+  };
+
+  it('should convert the entries of a zip archive, keeping their structure', async () => {
+    const archivePath = await createInputArchive('zip');
+    const summary = await convertImages(archivePath, { ...baseOptions(), output: outputDir });
+
+    expect(summary.input).toBe(archivePath);
+    expect(summary.stats).toMatchObject({ converted: 2, unsupported: 0 });
+    expect(summary.files.map((file) => file.input)).toEqual([path.join(archivePath, 'a.png'), path.join(archivePath, 'sub', 'b.png')]);
+    expect(await getImageFormat(path.join(outputDir, 'a.webp'))).toBe('webp');
+    expect((await sharp(path.join(outputDir, 'sub', 'b.webp')).metadata()).width).toBe(20);
+  });
+
+  it('should apply directory filters to the entries of a gzipped tar archive', async () => {
+    const archivePath = await createInputArchive('tgz');
+
+    const plan = await planConversion(archivePath, { ...baseOptions(), output: outputDir, include: ['sub/**'] });
+    expect(plan.files.map((file) => file.outputs)).toEqual([[path.join(outputDir, 'sub', 'b.webp')]]);
+
+    const flat = await convertImages(archivePath, { ...baseOptions(), recursive: false, output: outputDir });
+    expect(flat.files.map((file) => file.input)).toEqual([path.join(archivePath, 'a.png')]);
+  });
+
+  it('should report an unreadable archive entry as a failed file', async () => {
+    const archivePath = await createInputArchive('zip');
+    // Give a.png an unknown compression method in the central directory
+    const archive = await fs.readFile(archivePath);
+    const entry = archive.indexOf(Buffer.from([0x50, 0x4B, 0x01, 0x02]));
+    expect(archive.toString('utf8', entry + 46, entry + 46 + archive.readUInt16LE(entry + 28))).toBe('a.png');
+    archive.writeUInt16LE(99, entry + 10);
+    await fs.writeFile(archivePath, archive);
+
+    const summary = await convertImages(archivePath, { ...baseOptions(), output: outputDir, continueOnError: true });
+
+    expect(summary.stats).toMatchObject({ converted: 1, failed: 1 });
+    expect(summary.files[0]).toMatchObject({ input: path.join(archivePath, 'a.png'), status: 'failed' });
+    expect(summary.files[0].error?.message).toContain('compression method');
+    expect(await getImageFormat(path.join(outputDir, 'sub', 'b.webp'))).toBe('webp');
+  });
+
+  it('should reject archive entries outside the output directory', async () => {
+    const pack = tar.pack();
+    pack.entry({ name: '../escape.png' }, await createSolidImage(10, 10));
+    pack.finalize();
+    const archivePath = path.join(testDir, 'unsafe.tar');
+    await fs.writeFile(archivePath, await buffer(pack));
+
+    await expect(convertImages(archivePath, { ...baseOptions(), output: outputDir })).rejects.toThrow(`Unsafe entry path in ${archivePath}: ../escape.png`);
+  });
+
+  it('should convert stdin to stdout', async () => {
+    const input = await createSolidImage(30, 15);
+    vi.spyOn(process, 'stdin', 'get').mockReturnValue(Readable.from([input]) as typeof process.stdin);
+    const written: Buffer[] = [];
+    vi.spyOn(process.stdout, 'write').mockImplementation(((data: Buffer, callback: () => void) => {
+      written.push(data);
+      callback();
+      return true;
+    }) as typeof process.stdout.write);
+
+    const summary = await convertImages('-', baseOptions());
+
+    expect(summary.output).toBe('-');
+    expect(summary.files[0]).toMatchObject({ status: 'converted', inputFormat: 'png', inputSize: input.length });
+    expect(summary.files[0].outputs).toMatchObject([{ path: '-', format: 'webp', width: 30, height: 15 }]);
+    expect(detectImageFormatFromBuffer(Buffer.concat(written))?.format).toBe('webp');
+  });
+
+  it('should reject stdin options that need an output path', async () => {
+    await expect(convertImages('-', { ...baseOptions(), output: outputDir })).rejects.toThrow('Standard input is converted to standard output');
+    await expect(convertImages('-', { ...baseOptions(), widths: '10' })).rejects.toThrow('Standard input is converted to standard output');
+    await expect(planConversion('-', baseOptions())).rejects.toThrow('Dry runs cannot read standard input');
+    await expect(convertImages(await createInputArchive('tar'), { ...baseOptions(), format: 'same', inPlace: true })).rejects.toThrow('In-place mode requires a file or directory input');
+  });
+});
+
+describe('Size budget', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    // Noise compresses poorly, so the encoded size follows the quality closely
+    let seed = 1;
+    const pixels = Buffer.from(Array.from({ length: 160 * 120 * 3 }, () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) >> 23));
+    await fs.writeFile(path.join(testDir, 'noise.png'), await sharp(pixels, { raw: { width: 160, height: 120, channels: 3 } }).png().toBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const convert = (options: Partial<ConvertOptions> = {}) =>
+    convertImages(testDir, {
+      format: 'jpg',
+      quality: '95',
+      output: outputDir,
+      recursive: false,
+      zip: false,
+      overwrite: true,
+      ...options,
+    });
+
+  it('should lower the quality until the output fits', async () => {
+    const full = (await convert()).files[0].outputs[0];
+    const maxSize = Math.floor(full.size / 2);
+
+    const [output] = (await convert({ maxSize: String(maxSize) })).files[0].outputs;
+    expect(output.size).toBeLessThanOrEqual(maxSize);
+    expect(output.quality).toBeGreaterThanOrEqual(30);
+    expect(output.quality).toBeLessThan(95);
+    expect((await fs.stat(path.join(outputDir, 'noise.jpg'))).size).toBe(output.size);
+    // The next quality up would not have fit
+    const above = await sharp(path.join(testDir, 'noise.png')).jpeg({ quality: output.quality! + 1 }).toBuffer();
+    expect(above.length).toBeGreaterThan(maxSize);
+  });
+
+  it('should report files that do not fit at the minimum quality', async () => {
+    const summary = await convert({ maxSize: '2KB', minQuality: '50', continueOnError: true });
+
+    expect(summary.stats.failed).toBe(1);
+    expect(summary.files[0].error?.message).toMatch(/^Output does not fit the max size of 2048 bytes: \d+ bytes at quality 50 and 160x120$/);
+    expect(await fs.readdir(outputDir)).toEqual([]);
+  });
+
+  it('should step down the dimensions when downscaling is allowed', async () => {
+    const [output] = (await convert({ maxSize: '2KB', minQuality: '50', downscale: true })).files[0].outputs;
+
+    expect(output.size).toBeLessThanOrEqual(2048);
+    expect(output.width).toBeLessThan(160);
+    expect(output.width / output.height).toBeCloseTo(160 / 120, 1);
+  });
+
+  it('should reject invalid size budget options', async () => {
+    await expect(convert({ maxSize: '200XB' })).rejects.toThrow('Invalid max size: 200XB');
+    await expect(convert({ maxSize: '200KB', minQuality: '0' })).rejects.toThrow('Invalid min quality value: 0');
+    await expect(convert({ downscale: true })).rejects.toThrow('Min quality and downscale require a max size');
+    await expect(convert({ maxSize: '1.5MB', widths: '100' })).rejects.toThrow('Max size cannot be combined with variant widths');
+  });
+});
+
+describe('Watermarks', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'images'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'images', 'photo.png'), await sharp({
+      create: { width: 200, height: 100, channels: 3, background: '#0000ff' },
+    }).png().toBuffer());
+    await fs.writeFile(path.join(testDir, 'logo.png'), await sharp({
+      create: { width: 20, height: 10, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+    }).png().toBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const convert = (options: Partial<ConvertOptions> = {}) =>
+    convertImages(path.join(testDir, 'images'), {
+      format: 'png',
+      quality: '95',
+      output: outputDir,
+      recursive: false,
+      zip: false,
+      watermark: path.join(testDir, 'logo.png'),
+      ...options,
+    });
+
+  // Reads the RGB values of a single output pixel
+  const pixelAt = async (file: string, left: number, top: number) =>
+    [...await sharp(file).extract({ left, top, width: 1, height: 1 }).removeAlpha().raw().toBuffer()];
+
+  it('should place an image watermark by gravity and offset, scaled to the output', async () => {
+    await convert({ watermarkScale: '0.1', watermarkOffset: '5,5' });
+    const output = path.join(outputDir, 'photo.png');
+
+    // 20x10 at 10% of the width, 5 pixels from the bottom-right corner
+    expect(await pixelAt(output, 175, 85)).toEqual([255, 0, 0]);
+    expect(await pixelAt(output, 194, 94)).toEqual([255, 0, 0]);
+    expect(await pixelAt(output, 195, 95)).toEqual([0, 0, 255]);
+    expect(await pixelAt(output, 174, 84)).toEqual([0, 0, 255]);
+
+    await convert({ width: '100', watermarkScale: '0.2', watermarkGravity: 'northwest', watermarkOpacity: '0.5', overwrite: true });
+    const [red, , blue] = await pixelAt(output, 0, 0);
+    expect(red).toBeGreaterThan(100);
+    expect(blue).toBeGreaterThan(100);
+    expect(await pixelAt(output, 20, 10)).toEqual([0, 0, 255]);
+  });
+
+  it('should tile the watermark across the output', async () => {
+    await convert({ watermarkScale: '0.1', watermarkTile: true });
+    const output = path.join(outputDir, 'photo.png');
+
+    expect(await pixelAt(output, 0, 0)).toEqual([255, 0, 0]);
+    expect(await pixelAt(output, 199, 99)).toEqual([255, 0, 0]);
+  });
+
+  it('should stamp text watermarks in archive mode', async () => {
+    const archivePath = path.join(outputDir, 'images.zip');
+    const summary = await convert({ watermark: undefined, watermarkText: 'Sample & <Co>', watermarkScale: '0.5', zip: true, output: archivePath });
+
+    expect(summary.stats.converted).toBe(1);
+    expect(listZipEntries(await fs.readFile(archivePath))).toEqual(['photo.png']);
+  });
+
+  it('should reject invalid watermark options', async () => {
+    await expect(convert({ watermarkText: 'Shop' })).rejects.toThrow('A watermark image cannot be combined with watermark text');
+    await expect(convert({ watermark: undefined, watermarkTile: true })).rejects.toThrow('Watermark options require a watermark image or text');
+    await expect(convert({ watermark: path.join(testDir, 'missing.png') })).rejects.toThrow('Cannot read watermark image');
+    await expect(convert({ watermarkGravity: 'middle' })).rejects.toThrow('Unsupported watermark gravity: middle');
+    await expect(convert({ watermarkOffset: '5' })).rejects.toThrow('Invalid watermark offset: 5');
+    await expect(convert({ watermarkOpacity: '1.5' })).rejects.toThrow('Invalid watermark opacity: 1.5');
+    await expect(convert({ watermarkScale: '0' })).rejects.toThrow('Invalid watermark scale: 0');
+    await expect(convert({ watermarkTile: true, watermarkGravity: 'north' })).rejects.toThrow('A tiled watermark cannot be combined with a gravity or offset');
+  });
+});
+
+describe('Transforms', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    // Transparent 200x100 canvas with an opaque red top half
+    await fs.writeFile(path.join(testDir, 'logo.png'), await sharp({
+      create: { width: 200, height: 100, channels: 4, background: { r: 0, g: 0, b: 255, alpha: 0 } },
+    }).composite([{ input: { create: { width: 200, height: 50, channels: 4, background: '#ff0000' } }, left: 0, top: 0 }]).png().toBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const convert = (options: Partial<ConvertOptions> = {}) =>
+    convertImages(path.join(testDir, 'logo.png'), {
+      format: 'png',
+      quality: '95',
+      output: outputDir,
+      recursive: false,
+      zip: false,
+      overwrite: true,
+      ...options,
+    });
+
+  const pixelAt = async (file: string, left: number, top: number) =>
+    [...await sharp(file).extract({ left, top, width: 1, height: 1 }).removeAlpha().raw().toBuffer()];
+
+  it('should flatten transparency onto a background color', async () => {
+    await convert({ format: 'jpg', transforms: [{ type: 'flatten', background: '#ffffff' }] });
+
+    const [red, green, blue] = await pixelAt(path.join(outputDir, 'logo.jpg'), 100, 90);
+    expect(Math.min(red, green, blue)).toBeGreaterThan(245);
+  });
+
+  it('should apply steps in order before resizing', async () => {
+    const rotateThenCrop = await convert({ transforms: parseTransformSteps(['rotate=90', 'crop=0,0,100,50']) });
+    expect(rotateThenCrop.files[0].outputs[0]).toMatchObject({ width: 100, height: 50 });
+
+    const cropThenRotate = await convert({ transforms: parseTransformSteps(['crop=0,0,100,50', 'rotate=90']) });
+    expect(cropThenRotate.files[0].outputs[0]).toMatchObject({ width: 50, height: 100 });
+
+    const squared = await convert({ width: '40', transforms: parseTransformSteps(['crop=1:1,attention', 'grayscale', 'sharpen']) });
+    expect(squared.files[0].outputs[0]).toMatchObject({ width: 40, height: 40 });
+  });
+
+  it('should flip, trim and adjust colors', async () => {
+    await convert({ transforms: parseTransformSteps(['flip', 'modulate=1,0', 'blur=0.5']) });
+    const output = path.join(outputDir, 'logo.png');
+    const [red, green, blue] = await pixelAt(output, 100, 90);
+    // The red half moved to the bottom and lost its saturation
+    expect(red).toBe(green);
+    expect(green).toBe(blue);
+    expect(red).toBeGreaterThan(0);
+
+    const trimmed = await convert({ transforms: [{ type: 'trim' }] });
+    expect(trimmed.files[0].outputs[0]).toMatchObject({ width: 200, height: 50 });
+  });
+
+  it('should parse and validate transform steps', async () => {
+    expect(parseTransformSteps(['crop=16:9,attention', 'rotate=45,#fff', 'trim', 'modulate=1.1,0.8', 'flatten=rgb(255,255,255)'])).toEqual([
+      { type: 'crop', aspect: '16:9', gravity: 'attention' },
+      { type: 'rotate', angle: 45, background: '#fff' },
+      { type: 'trim', threshold: undefined },
+      { type: 'modulate', brightness: 1.1, saturation: 0.8, hue: undefined },
+      { type: 'flatten', background: 'rgb(255,255,255)' },
+    ]);
+
+    await expect(convert({ transforms: parseTransformSteps(['swirl']) })).rejects.toThrow('Unsupported transform: swirl');
+    await expect(convert({ transforms: parseTransformSteps(['flip', 'blur=0']) })).rejects.toThrow('Invalid transform 2 (blur): sigma must be a number between 0.3 and 1000');
+    await expect(convert({ transforms: parseTransformSteps(['crop=wide']) })).rejects.toThrow('Invalid transform 1 (crop): aspect must be a ratio');
+    await expect(convert({ transforms: parseTransformSteps(['flatten=nope']) })).rejects.toThrow('Invalid transform 1 (flatten): invalid background color: nope');
+
+    const summary = await convert({ continueOnError: true, transforms: parseTransformSteps(['crop=150,0,100,50']) });
+    expect(summary.files[0].error?.message).toBe('Crop box 100x50 at 150,0 does not fit the 200x100 image');
+
+    expect(validateConfig({ presets: { square: { transforms: ['crop=1:1', { type: 'grayscale' }] } } }, 'config.json').presets.square.transforms).toEqual([
+      { type: 'crop', aspect: '1:1', gravity: undefined },
+      { type: 'grayscale' },
+    ]);
+    expect(() => validateConfig({ presets: { bad: { transforms: ['blur'] } } }, 'config.json')).toThrow('Invalid config in config.json: presets.bad.transforms: Invalid transform 1 (blur)');
+    expect(() => validateConfig({ presets: { bad: { transforms: ['rotate=x'] } } }, 'config.json')).toThrow('Invalid config in config.json: presets.bad.transforms: Invalid transform 1 (rotate)');
+    expect(() => validateConfig({ presets: { bad: { transforms: ['crop 1:1'] } } }, 'config.json')).toThrow('Invalid config in config.json: presets.bad.transforms: Invalid transform: crop 1:1');
+  });
+});
+
+describe('Animated images', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    // Red, green and blue frames of 40x20 pixels
+    await fs.writeFile(
+      path.join(testDir, 'spinner.gif'),
+      createAnimatedGif(40, 20, [[255, 0, 0], [0, 255, 0], [0, 0, 255]], [100, 200, 300])
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const convert = (options: Partial<ConvertOptions> = {}) =>
+    convertImages(path.join(testDir, 'spinner.gif'), {
+      format: 'webp',
+      quality: '95',
+      output: outputDir,
+      recursive: false,
+      zip: false,
+      overwrite: true,
+      ...options,
+    });
+
+  const pixelAt = async (file: string, page: number, left: number, top: number) =>
+    [...await sharp(file, { page }).extract({ left, top, width: 1, height: 1 }).removeAlpha().raw().toBuffer()];
+
+  it('should keep every frame, the loop and the delays', async () => {
+    const summary = await convert({ width: '20' });
+    expect(summary.files[0].outputs[0]).toMatchObject({ width: 20, height: 10, frames: 3 });
+
+    const output = path.join(outputDir, 'spinner.webp');
+    const metadata = await sharp(output).metadata();
+    expect(metadata).toMatchObject({ pages: 3, loop: 0, delay: [100, 200, 300] });
+    const [red, green, blue] = await pixelAt(output, 2, 5, 5);
+    expect(blue).toBeGreaterThan(200);
+    expect(red + green).toBeLessThan(60);
+
+    const back = await convertImages(output, { format: 'gif', quality: '95', output: outputDir, recursive: false, zip: false, overwrite: true });
+    expect(back.files[0].outputs[0].frames).toBe(3);
+    expect((await sharp(path.join(outputDir, 'spinner.gif')).metadata()).pages).toBe(3);
+  });
+
+  it('should convert the first frame of an animation to a still format with a warning', async () => {
+    const events: ConversionEvent[] = [];
+    const still = await convert({ format: 'jpg', onProgress: (event) => events.push(event) });
+    expect(still.stats).toMatchObject({ converted: 1, failed: 0 });
+    expect(still.files[0].outputs[0]).toMatchObject({ width: 40, height: 20, frames: undefined });
+    const [firstRed] = await pixelAt(path.join(outputDir, 'spinner.jpg'), 0, 5, 5);
+    expect(firstRed).toBeGreaterThan(200);
+    expect(events.filter((event) => event.type === 'warning')).toEqual([{
+      type: 'warning',
+      input: path.join(testDir, 'spinner.gif'),
+      message: 'jpg cannot hold animations; converting only the first of 3 frames. Choose a frame with --frame <n> or --first-frame',
+    }]);
+
+    events.length = 0;
+    await convert({ transforms: [{ type: 'flip' }], onProgress: (event) => events.push(event) });
+    expect((await sharp(path.join(outputDir, 'spinner.webp')).metadata()).pages).toBeUndefined();
+    expect(events.find((event) => event.type === 'warning')).toMatchObject({ message: expect.stringContaining('Transforms cannot be applied to animations') });
+
+    events.length = 0;
+    const avif = await convert({ format: 'avif', onProgress: (event) => events.push(event) });
+    expect(avif.files[0].outputs[0]).toMatchObject({ width: 40, height: 20, frames: undefined });
+    expect((await sharp(path.join(outputDir, 'spinner.avif')).metadata()).pages ?? 1).toBe(1);
+    expect(events.find((event) => event.type === 'warning')).toMatchObject({ message: expect.stringContaining('avif cannot hold animations') });
+
+    await convert({ format: 'png', frame: '2' });
+    const [red, green] = await pixelAt(path.join(outputDir, 'spinner.png'), 0, 5, 5);
+    expect([red, green]).toEqual([0, 255]);
+
+    events.length = 0;
+    const summary = await convert({ format: 'png', firstFrame: true, onProgress: (event) => events.push(event) });
+    expect(summary.files[0].outputs[0].frames).toBeUndefined();
+    expect(events.some((event) => event.type === 'warning')).toBe(false);
+    expect(await pixelAt(path.join(outputDir, 'spinner.png'), 0, 5, 5)).toEqual([255, 0, 0]);
+  });
+
+  it('should validate the frame options', async () => {
+    await expect(convert({ frame: '0' })).rejects.toThrow('Invalid frame value: 0');
+    await expect(convert({ frame: '2', firstFrame: true })).rejects.toThrow('A frame number cannot be combined with first frame');
+    await expect(convert({ format: 'png', frame: '4' })).rejects.toThrow('Frame 4 is out of range');
+  });
+
+  it('should watermark every frame', async () => {
+    const watermark = path.join(testDir, 'mark.png');
+    await fs.writeFile(watermark, await createSolidImage(10, 10));
+    await convert({ format: 'gif', watermark, watermarkScale: '0.25', watermarkGravity: 'northwest' });
+
+    const output = path.join(outputDir, 'spinner.gif');
+    for (const page of [0, 1, 2]) {
+      expect(await pixelAt(output, page, 2, 2)).toEqual([255, 0, 0]);
+    }
+    expect(await pixelAt(output, 2, 30, 15)).toEqual([0, 0, 255]);
+  });
+
+  it('should report the loop and delays of animations', async () => {
+    const [report] = await inspectImages(path.join(testDir, 'spinner.gif'), { recursive: false });
+    expect(report).toMatchObject({ frames: 3, loop: 0, delay: [100, 200, 300] });
+  });
+});
+
+describe('Sprite sheets', () => {
+  let testDir: string;
+  let outputDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    outputDir = path.join(tmpdir(), `magic-images-output-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'sub'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'home.png'), await createSolidImage(32, 32));
+    await fs.writeFile(path.join(testDir, 'wide.png'), await createSolidImage(64, 32));
+    await fs.writeFile(path.join(testDir, 'sub', 'tall.png'), await createSolidImage(16, 48));
+    await fs.writeFile(path.join(testDir, 'notes.txt'), createTextBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+      await fs.rm(outputDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  const sprite = (options: Partial<SpriteOptions> = {}) =>
+    spriteImages(testDir, {
+      format: 'png',
+      quality: '95',
+      recursive: true,
+      output: path.join(outputDir, 'icons.png'),
+      ...options,
+    });
+
+  const overlaps = (a: { x: number; y: number; width: number; height: number }, b: typeof a) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+  it('should place images in a grid and write JSON and CSS maps', async () => {
+    const sheet = await sprite({ padding: '2', scale: '2' });
+
+    expect(sheet.sprites.map((entry) => entry.name)).toEqual(['home.png', 'sub/tall.png', 'wide.png']);
+    // Two columns of 64x48 cells with 2 pixels between them
+    expect(sheet).toMatchObject({ width: 130, height: 98, scale: 2 });
+    expect(sheet.sprites[0]).toMatchObject({ x: 16, y: 8, width: 32, height: 32 });
+    expect(await sharp(sheet.path).metadata()).toMatchObject({ width: 130, height: 98, format: 'png' });
+
+    const map = JSON.parse(await fs.readFile(path.join(outputDir, 'icons.json'), 'utf8'));
+    expect(map).toMatchObject({ image: 'icons.png', width: 130, height: 98, scale: 2 });
+    expect(map.sprites['wide.png']).toEqual({ x: 0, y: 58, width: 64, height: 32 });
+
+    const css = await fs.readFile(path.join(outputDir, 'icons.css'), 'utf8');
+    expect(css).toContain('background-image: url("icons.png");');
+    expect(css).toContain('background-size: 65px 49px;');
+    expect(css).toContain('.sprite-home {\n  background-position: -8px -4px;\n  width: 16px;\n  height: 16px;\n}');
+    expect(css).toContain('.sprite-sub-tall {');
+    expect(sheet.maps).toEqual([path.join(outputDir, 'icons.json'), path.join(outputDir, 'icons.css')]);
+  });
+
+  it('should pack images within the max width without overlapping', async () => {
+    const sheet = await sprite({ layout: 'packed', maxWidth: '80', padding: '1', format: 'webp', output: path.join(outputDir, 'atlas.webp'), map: 'json' });
+
+    expect(sheet.width).toBeLessThanOrEqual(80);
+    expect((await sharp(sheet.path).metadata()).format).toBe('webp');
+    for (const [index, entry] of sheet.sprites.entries()) {
+      expect(entry.x + entry.width).toBeLessThanOrEqual(sheet.width);
+      expect(entry.y + entry.height).toBeLessThanOrEqual(sheet.height);
+      for (const other of sheet.sprites.slice(index + 1)) {
+        expect(overlaps(entry, other)).toBe(false);
+      }
+    }
+    await expect(fs.access(path.join(outputDir, 'atlas.css'))).rejects.toThrow();
+  });
+
+  it('should reject invalid options and inputs', async () => {
+    await expect(sprite({ layout: 'spiral' })).rejects.toThrow('Unsupported layout: spiral');
+    await expect(sprite({ scale: '0' })).rejects.toThrow('Invalid scale value: 0');
+    await expect(sprite({ map: 'xml' })).rejects.toThrow('Unsupported map format: xml');
+    await expect(sprite({ maxWidth: '40' })).rejects.toThrow('wide.png is 64 pixels wide, more than the max width of 40');
+    await expect(spriteImages(path.join(testDir, 'home.png'), { format: 'png', quality: '95', recursive: false }))
+      .rejects.toThrow('Sprite input must be a directory');
+
+    await fs.writeFile(path.join(testDir, 'home.jpg'), await createSolidImage(8, 8, 'jpeg'));
+    await expect(sprite()).rejects.toThrow('Sprites home.jpg and home.png have the same class name: sprite-home');
+  });
+});
+
+describe('inspectImages', () => {
+  let testDir: string;
+
+  // Two 1x1 frames with a NETSCAPE loop extension
+  const createAnimatedGIFBuffer = () => {
+    const frame = [0x21, 0xF9, 0x04, 0x00, 0x0A, 0x00, 0x00, 0x00, 0x2C, 0, 0, 0, 0, 1, 0, 1, 0, 0, 0x02, 0x02, 0x44, 0x01, 0x00];
+    return Buffer.from([
+      ...Buffer.from('GIF89a'), 1, 0, 1, 0, 0x80, 0, 0, 0, 0, 0, 255, 255, 255,
+      0x21, 0xFF, 0x0B, ...Buffer.from('NETSCAPE2.0'), 3, 1, 0, 0, 0,
+      ...frame, ...frame, 0x3B,
+    ]);
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(tmpdir(), `magic-images-test-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, 'nested'), { recursive: true });
+    const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#ff8000' } })
+      .withMetadata({ orientation: 6, icc: 'p3' })
+      .jpeg()
+      .toBuffer();
+    await fs.writeFile(path.join(testDir, 'photo.jpg'), photo);
+    await fs.writeFile(path.join(testDir, 'notes.txt'), createTextBuffer());
+    await fs.writeFile(path.join(testDir, 'nested', 'logo.png'), await sharp({
+      create: { width: 8, height: 6, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0.5 } },
+    }).png().toBuffer());
+    await fs.writeFile(path.join(testDir, 'nested', 'spinner.gif'), createAnimatedGIFBuffer());
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should report the metadata of a single image', async () => {
+    const photoPath = path.join(testDir, 'photo.jpg');
+    const [report] = await inspectImages(photoPath, { recursive: false });
+    expect(report).toMatchObject({
+      path: photoPath,
+      format: 'jpg',
+      mimeType: 'image/jpeg',
+      width: 40,
+      height: 20,
+      space: 'srgb',
+      channels: 3,
+      bitDepth: 8,
+      hasAlpha: false,
+      orientation: 6,
+      iccProfile: 'sP3C',
+      frames: 1,
+      size: (await fs.stat(photoPath)).size,
+    });
+  });
+
+  it('should walk directories and skip unsupported files', async () => {
+    const shallow = await inspectImages(testDir, { recursive: false });
+    expect(shallow.map((report) => path.basename(report.path))).toEqual(['photo.jpg']);
+
+    const reports = await inspectImages(testDir, { recursive: true });
+    const byName = Object.fromEntries(reports.map((report) => [path.basename(report.path), report]));
+    expect(Object.keys(byName).sort()).toEqual(['logo.png', 'photo.jpg', 'spinner.gif']);
+    expect(byName['logo.png']).toMatchObject({ channels: 4, hasAlpha: true, iccProfile: undefined });
+    expect(byName['spinner.gif'].frames).toBe(2);
+  });
+
+  it('should report unreadable images with their error', async () => {
+    await fs.writeFile(path.join(testDir, 'broken.png'), createPNGBuffer());
+    const reports = await inspectImages(testDir, { recursive: false });
+    const broken = reports.find((report) => report.path.endsWith('broken.png'));
+    expect(broken?.format).toBe('png');
+    expect(broken?.error).toBeDefined();
+    expect(broken?.width).toBeUndefined();
+
+    const table = formatReportTable(reports);
+    expect(table.split('\n')[0]).toMatch(/^File\s+Format\s+Size/);
+    expect(table).toContain('40x20');
+    expect(table).toContain(`Failed to read ${broken?.path}`);
+  });
+});
@@ -1,3 +1,37 @@
 // Re-export for backward compatibility
-export { convertImages, type ConvertOptions } from './commands/convert/index.js';
-export { getImageFormat } from './utils/image.js';
+export { convertImages, planConversion, type ConvertOptions } from './commands/convert/index.js';
+export { watchImages } from './commands/convert/watch.js';
+export { defineConfig, loadConfig, resolvePreset, applyPreset, type LoadedConfig } from './commands/convert/config.js';
+export type {
+  CollisionPolicy,
+  ConversionEvent,
+  ConversionPlan,
+  ConversionRule,
+  ConversionStats,
+  ConversionSummary,
+  ConversionWatcher,
+  EncoderOptions,
+  FileResult,
+  FileStatus,
+  MagicImagesConfig,
+  OutputCollision,
+  OutputFile,
+  PlannedFile,
+  PresetOptions,
+  PresetRule,
+  RuleOptions,
+  TransformStep,
+} from './commands/convert/types.js';
+export { inspectImages } from './commands/inspect/index.js';
+export type { ImageReport, InspectOptions } from './commands/inspect/types.js';
+export { spriteImages } from './commands/sprite/index.js';
+export type { SpriteEntry, SpriteOptions, SpriteSheet } from './commands/sprite/types.js';
+export {
+  getImageFormat,
+  detectImageFormat,
+  detectImageFormatFromBuffer,
+  getIccProfileName,
+  type ImageFormat,
+  type ImageFormatInfo,
+  type ImageContainer,
+} from './utils/image.js';
@@ -0,0 +1,27 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Path of a temporary file next to a file, for writing it before renaming it into place
+ */
+export function getTempPath(filePath: string): string {
+  return path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}-${Date.now()}.tmp`);
+}
+
+/**
+ * Writes a file through a temporary file in the same directory and renames it into place
+ *
+ * Readers never see a partially written file, and a failed write leaves any
+ * existing file untouched.
+ */
+export async function writeFileAtomic(filePath: string, data: Buffer): Promise<void> {
+  const tempPath = getTempPath(filePath);
+  
+  try {
+    await fsPromises.writeFile(tempPath, data);
+    await fsPromises.rename(tempPath, filePath);
+  } catch (error) {
+    await fsPromises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -1,52 +1,135 @@
 import * as fsPromises from 'fs/promises';
 
 /**
- * Determines the image format by reading the file's magic bytes
+ * Number of header bytes needed to identify every supported container
+ */
+const HEADER_SIZE = 64;
+
+/**
+ * ISOBMFF brands that identify an AVIF image
+ */
+const AVIF_BRANDS = ['avif', 'avis'];
+
+/**
+ * ISOBMFF brands that identify a HEIF/HEIC image
+ */
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+export type ImageFormat = 'jpg' | 'png' | 'webp' | 'avif' | 'heif' | 'tiff' | 'gif';
+
+export type ImageContainer = 'jpeg' | 'png' | 'riff' | 'isobmff' | 'tiff' | 'gif';
+
+/**
+ * Result of magic-byte format detection
+ */
+export interface ImageFormatInfo {
+  format: ImageFormat;
+  mimeType: string;
+  container: ImageContainer;
+  /** ISOBMFF major brand (AVIF/HEIF) */
+  brand?: string;
+  /** ISOBMFF compatible brands (AVIF/HEIF) */
+  compatibleBrands?: string[];
+  /** Byte order of the TIFF header */
+  byteOrder?: 'little-endian' | 'big-endian';
+  /** GIF specification version (87a or 89a) */
+  version?: string;
+}
+
+/**
+ * Reads an ISOBMFF `ftyp` box and classifies it as AVIF or HEIF
+ */
+function detectIsobmff(buffer: Buffer): ImageFormatInfo | null {
+  if (buffer.length < 12 || buffer.toString('latin1', 4, 8) !== 'ftyp') {
+    return null;
+  }
+
+  const boxSize = buffer.readUInt32BE(0);
+  const brand = buffer.toString('latin1', 8, 12);
+  const compatibleBrands: string[] = [];
+  // Compatible brands follow the major brand and the 4-byte minor version
+  const end = Math.min(boxSize, buffer.length);
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    compatibleBrands.push(buffer.toString('latin1', offset, offset + 4));
+  }
+
+  const brands = [brand, ...compatibleBrands];
+  if (brands.some((item) => AVIF_BRANDS.includes(item))) {
+    return { format: 'avif', mimeType: 'image/avif', container: 'isobmff', brand, compatibleBrands };
+  }
+  if (brands.some((item) => HEIF_BRANDS.includes(item))) {
+    const mimeType = ['heic', 'heix', 'hevc', 'hevx'].includes(brand) ? 'image/heic' : 'image/heif';
+    return { format: 'heif', mimeType, container: 'isobmff', brand, compatibleBrands };
+  }
+
+  return null;
+}
+
+/**
+ * Determines the image format from the leading bytes of an image
+ */
+export function detectImageFormatFromBuffer(buffer: Buffer): ImageFormatInfo | null {
+  if (buffer.length < 4) {
+    return null; // Too small to be an image
+  }
+
+  // Check for JPEG (starts with 0xFFD8)
+  if (buffer[0] === 0xFF && buffer[1] === 0xD8) {
+    // Normalize to 'jpg' for consistency with the API
+    return { format: 'jpg', mimeType: 'image/jpeg', container: 'jpeg' };
+  }
+
+  // Check for PNG (starts with 0x89PNG\r\n\x1A\n)
+  if (
+    buffer[0] === 0x89 &&
+    buffer[1] === 0x50 &&
+    buffer[2] === 0x4E &&
+    buffer[3] === 0x47
+  ) {
+    return { format: 'png', mimeType: 'image/png', container: 'png' };
+  }
+
+  // Check for WebP (has RIFF header and WEBP signature)
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('latin1', 0, 4) === 'RIFF' &&
+    buffer.toString('latin1', 8, 12) === 'WEBP'
+  ) {
+    return { format: 'webp', mimeType: 'image/webp', container: 'riff' };
+  }
+
+  // Check for GIF (GIF87a or GIF89a)
+  if (buffer.length >= 6) {
+    const signature = buffer.toString('latin1', 0, 6);
+    if (signature === 'GIF87a' || signature === 'GIF89a') {
+      return { format: 'gif', mimeType: 'image/gif', container: 'gif', version: signature.slice(3) };
+    }
+  }
+
+  // Check for TIFF (II*\0 little-endian or MM\0* big-endian)
+  if (buffer[0] === 0x49 && buffer[1] === 0x49 && buffer[2] === 0x2A && buffer[3] === 0x00) {
+    return { format: 'tiff', mimeType: 'image/tiff', container: 'tiff', byteOrder: 'little-endian' };
+  }
+  if (buffer[0] === 0x4D && buffer[1] === 0x4D && buffer[2] === 0x00 && buffer[3] === 0x2A) {
+    return { format: 'tiff', mimeType: 'image/tiff', container: 'tiff', byteOrder: 'big-endian' };
+  }
+
+  // Check for AVIF/HEIF (ISOBMFF ftyp box)
+  return detectIsobmff(buffer);
+}
+
+/**
+ * Determines the image format and container details by reading the file's magic bytes
  * This is more efficient than using Sharp for format detection alone
  */
-export async function getImageFormat(filePath: string): Promise<string | null> {
+export async function detectImageFormat(filePath: string): Promise<ImageFormatInfo | null> {
   try {
     const fileHandle = await fsPromises.open(filePath, 'r');
     try {
-      // Read first 12 bytes to check magic numbers
-      const buffer = Buffer.alloc(12);
-      const { bytesRead } = await fileHandle.read(buffer, 0, 12, 0);
-      
-      if (bytesRead < 4) {
-        return null; // File too small to be an image
-      }
-      
-      // Check for JPEG (starts with 0xFFD8)
-      if (buffer[0] === 0xFF && buffer[1] === 0xD8) {
-        return 'jpg'; // Normalize to 'jpg' for consistency with the API
-      }
-      
-      // Check for PNG (starts with 0x89PNG\r\n\x1A\n)
-      if (
-        buffer[0] === 0x89 && 
-        buffer[1] === 0x50 && 
-        buffer[2] === 0x4E && 
-        buffer[3] === 0x47
-      ) {
-        return 'png';
-      }
-      
-      // Check for WebP (has RIFF header and WEBP signature)
-      if (
-        buffer[0] === 0x52 && // 'R'
-        buffer[1] === 0x49 && // 'I' 
-        buffer[2] === 0x46 && // 'F'
-        buffer[3] === 0x46 && // 'F'
-        bytesRead >= 12 &&
-        buffer[8] === 0x57 && // 'W'
-        buffer[9] === 0x45 && // 'E'
-        buffer[10] === 0x42 && // 'B'
-        buffer[11] === 0x50   // 'P'
-      ) {
-        return 'webp';
-      }
-      
-      return null;
+      const buffer = Buffer.alloc(HEADER_SIZE);
+      const { bytesRead } = await fileHandle.read(buffer, 0, HEADER_SIZE, 0);
+
+      return detectImageFormatFromBuffer(buffer.subarray(0, bytesRead));
     } finally {
       await fileHandle.close();
     }
@@ -55,4 +138,55 @@ export async function getImageFormat(filePath: string): Promise<string | null> {
   }
 }
 
+/**
+ * Determines the image format by reading the file's magic bytes
+ */
+export async function getImageFormat(filePath: string): Promise<string | null> {
+  const info = await detectImageFormat(filePath);
+  return info ? info.format : null;
+}
+
+/**
+ * Reads the description ('desc' tag) of an ICC profile
+ *
+ * Handles both v2 `desc` text and v4 `mluc` multi-localized records, using
+ * the first record of the latter.
+ */
+export function getIccProfileName(icc: Buffer): string | null {
+  if (icc.length < 132) {
+    return null;
+  }
+
+  const tagCount = icc.readUInt32BE(128);
+  for (let index = 0; index < tagCount; index++) {
+    const entry = 132 + index * 12;
+    if (entry + 12 > icc.length) {
+      return null;
+    }
+    if (icc.toString('latin1', entry, entry + 4) !== 'desc') {
+      continue;
+    }
+
+    const offset = icc.readUInt32BE(entry + 4);
+    const size = icc.readUInt32BE(entry + 8);
+    if (offset + size > icc.length || size < 12) {
+      return null;
+    }
 
+    const type = icc.toString('latin1', offset, offset + 4);
+    if (type === 'desc') {
+      const length = icc.readUInt32BE(offset + 8);
+      return icc.toString('latin1', offset + 12, offset + 12 + length).replace(/\0+$/, '') || null;
+    }
+    if (type === 'mluc' && size >= 28) {
+      const recordLength = icc.readUInt32BE(offset + 20);
+      const recordOffset = icc.readUInt32BE(offset + 24);
+      const text = icc.subarray(offset + recordOffset, offset + recordOffset + recordLength);
+      // Strings are UTF-16BE; swap to little-endian for Node's decoder
+      return Buffer.from(text.subarray(0, text.length & ~1)).swap16().toString('utf16le').replace(/\0+$/, '') || null;
+    }
+    return null;
+  }
+
+  return null;
+}
@@ -0,0 +1,101 @@
+import * as os from 'os';
+
+/**
+ * Default number of files processed in parallel, derived from the CPU count
+ */
+export function getDefaultConcurrency(): number {
+  const cpus = typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+  return Math.max(1, cpus);
+}
+
+/**
+ * Runs a worker over every item with at most `concurrency` workers in flight
+ *
+ * `onResult` is called in item order as soon as each result (and every result
+ * before it) is available, so output derived from it stays deterministic.
+ * The first failure stops scheduling new items; in-flight items are allowed to
+ * settle before the error is rethrown.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onResult?: (result: R, index: number) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const done: boolean[] = new Array(items.length).fill(false);
+  let nextIndex = 0;
+  let flushIndex = 0;
+  let failure: { error: unknown } | undefined;
+
+  const flush = () => {
+    while (flushIndex < items.length && done[flushIndex]) {
+      onResult?.(results[flushIndex], flushIndex);
+      flushIndex++;
+    }
+  };
+
+  const run = async () => {
+    while (!failure && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+        done[index] = true;
+        flush();
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, run);
+  await Promise.all(workers);
+
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
+
+/**
+ * Runs one step per item in item order, whichever order the items reach it in
+ */
+export interface Sequencer {
+  /** Runs the item's step once every earlier item has run or released its turn */
+  run<R>(index: number, step: () => Promise<R>): Promise<R>;
+  /** Waits for the item's turn, which it keeps until it is released */
+  wait(index: number): Promise<void>;
+  /** Gives up the item's turn, e.g. when it finished without needing one */
+  release(index: number): void;
+}
+
+/**
+ * Creates a sequencer for a pool of `length` items
+ *
+ * Every item must run its step or be released, as later items wait for it.
+ * With `runPool`, items start in order, so releasing each item once its
+ * worker settles cannot deadlock.
+ */
+export function createSequencer(length: number): Sequencer {
+  const releases: (() => void)[] = [];
+  const released = Array.from({ length }, (_, index) => new Promise<void>((resolve) => {
+    releases[index] = resolve;
+  }));
+  const ready: Promise<void>[] = [];
+  for (let index = 0; index < length; index++) {
+    ready.push(index === 0 ? Promise.resolve() : ready[index - 1].then(() => released[index - 1]));
+  }
+
+  return {
+    async run(index, step) {
+      await ready[index];
+      try {
+        return await step();
+      } finally {
+        releases[index]();
+      }
+    },
+    wait: (index) => ready[index],
+    release: (index) => releases[index](),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Matches `{token}` and `{token:length}` placeholders
+ */
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+
+/**
+ * Lists the `{token}` placeholders used in a filename template
+ */
+export function getTemplateTokens(template: string): string[] {
+  return Array.from(template.matchAll(TOKEN_PATTERN), (match) => match[1]);
+}
+
+/**
+ * Replaces `{token}` placeholders in a filename template with their values
+ *
+ * `{token:n}` keeps the first n characters of the value, e.g. `{hash:8}`.
+ * Placeholders without a value are left as they are.
+ */
+export function renderTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(TOKEN_PATTERN, (match, token: string, length?: string) => {
+    if (!(token in values)) {
+      return match;
+    }
+    const value = String(values[token]);
+    return length !== undefined ? value.slice(0, parseInt(length, 10)) : value;
+  });
+}
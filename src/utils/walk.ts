@@ -0,0 +1,117 @@
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import picomatch from 'picomatch';
+import ignore from 'ignore';
+
+/**
+ * Decides which files and directories a walk visits, by path relative to the root
+ */
+export interface PathFilter {
+  includeDirectory(relativePath: string): boolean;
+  includeFile(relativePath: string): boolean;
+}
+
+export interface PathFilterOptions {
+  include?: string[];
+  exclude?: string[];
+  /** Contents of a `.gitignore`-style ignore file */
+  ignoreRules?: string;
+}
+
+export interface WalkOptions {
+  recursive: boolean;
+  /** Number of subdirectory levels to descend into when recursive */
+  maxDepth?: number;
+  filter?: PathFilter;
+}
+
+/**
+ * Creates a matcher for relative paths
+ *
+ * Globs without a slash match the base name at any depth (`node_modules`,
+ * `*.png`); others match the whole relative path (`photos/raw/*.png`).
+ */
+export function createGlobMatcher(globs: string[]): (relativePath: string) => boolean {
+  // picomatch's basename mode stops globs with a slash from matching, so split them
+  const pathGlobs = globs.filter((glob) => glob.includes('/'));
+  const nameGlobs = globs.filter((glob) => !glob.includes('/'));
+  const matchesPath = pathGlobs.length ? picomatch(pathGlobs, { dot: true }) : () => false;
+  const matchesName = nameGlobs.length ? picomatch(nameGlobs, { dot: true, basename: true }) : () => false;
+  
+  return (relativePath) => matchesPath(relativePath) || matchesName(relativePath);
+}
+
+/**
+ * Creates a path filter from include/exclude globs and ignore-file rules
+ *
+ * Globs match as in `createGlobMatcher`. Include globs only restrict files,
+ * so directories are still traversed.
+ */
+export function createPathFilter(options: PathFilterOptions): PathFilter {
+  const isIncluded = options.include?.length ? createGlobMatcher(options.include) : () => true;
+  const isExcluded = options.exclude?.length ? createGlobMatcher(options.exclude) : () => false;
+  const ignored = options.ignoreRules !== undefined ? ignore().add(options.ignoreRules) : undefined;
+  
+  return {
+    includeDirectory: (relativePath) => !isExcluded(relativePath) && !ignored?.ignores(`${relativePath}/`),
+    includeFile: (relativePath) =>
+      isIncluded(relativePath) && !isExcluded(relativePath) && !ignored?.ignores(relativePath),
+  };
+}
+
+/**
+ * Lists the files of a directory in walk order
+ *
+ * Excluded directories are never read, and subdirectories are only
+ * descended into when recursive and within the maximum depth.
+ */
+export async function collectFiles(rootDir: string, options: WalkOptions): Promise<string[]> {
+  const { recursive, maxDepth, filter } = options;
+  
+  const walk = async (currentDir: string, depth: number): Promise<string[]> => {
+    const items = await fsPromises.readdir(currentDir);
+    const files: string[] = [];
+    
+    for (const item of items) {
+      const inputPath = path.join(currentDir, item);
+      const relativePath = path.relative(rootDir, inputPath).split(path.sep).join('/');
+      const stat = await fsPromises.stat(inputPath);
+      
+      if (stat.isDirectory()) {
+        const withinDepth = maxDepth === undefined || depth < maxDepth;
+        if (recursive && withinDepth && (!filter || filter.includeDirectory(relativePath))) {
+          // Recursively collect the subdirectory
+          files.push(...await walk(inputPath, depth + 1));
+        }
+      } else if (!filter || filter.includeFile(relativePath)) {
+        files.push(inputPath);
+      }
+    }
+    
+    return files;
+  };
+  
+  return walk(rootDir, 0);
+}
+
+/**
+ * Applies the walk options to relative paths listed up front, such as archive entries
+ *
+ * Paths are kept when `collectFiles` would visit them: within the depth
+ * limit, outside excluded directories and matching the file filter.
+ */
+export function filterPaths(relativePaths: string[], options: WalkOptions): string[] {
+  const { recursive, maxDepth, filter } = options;
+  
+  return relativePaths.filter((relativePath) => {
+    const directories = relativePath.split('/').slice(0, -1);
+    if (directories.length > 0 && (!recursive || (maxDepth !== undefined && directories.length > maxDepth))) {
+      return false;
+    }
+    if (!filter) {
+      return true;
+    }
+    const excluded = directories.some((_, index) => !filter.includeDirectory(directories.slice(0, index + 1).join('/')));
+    return !excluded && filter.includeFile(relativePath);
+  });
+}